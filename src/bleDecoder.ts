@@ -0,0 +1,201 @@
+import { DeviceType } from "./service/deviceService.ts";
+
+const MAC_ADDRESS_PATTERN = /^[0-9a-f]{2}(:[0-9a-f]{2}){5}$/;
+const HEX_PATTERN = /^[0-9a-f]+$/;
+const MAC_ADDRESS_LENGTH = 17;
+// The level byte sits at chars 4-5, the switch status in the last nibble
+const MIN_DATA_LENGTH = 6;
+// 31 bytes, the most a legacy advertisement can carry
+const MAX_DATA_LENGTH = 62;
+const SWITCH_GANGS = 3;
+// Level of dimmers and curtains, as a byte at chars 4-5
+const LEVEL_OFFSET = 4;
+// Range of the signal strength in dBm, as defined by the Bluetooth spec
+const MIN_RSSI = -127;
+const MAX_RSSI = 20;
+
+/** A payload of `yoswit/ble/devices`: the MAC address followed by hex data. */
+interface BleFrame {
+  macAddress: string; // lowercase, like the device MAC addresses
+  data: string;
+}
+
+/** A frame as seen by a scanner, with the details richer payloads carry. */
+interface BleSighting extends BleFrame {
+  scanner: string;
+  rssi?: number; // in dBm
+  timestamp?: number; // when the scanner saw it, by the scanner clock
+}
+
+interface SwitchAdvertisement {
+  model: "switch";
+  gangs: boolean[]; // gang index - 1 => on
+}
+
+interface DimmingAdvertisement {
+  model: "dimming";
+  brightness: number; // 0-100
+}
+
+interface CurtainAdvertisement {
+  model: "curtain";
+  position: number; // 0-100
+}
+
+type BleAdvertisement =
+  | SwitchAdvertisement
+  | DimmingAdvertisement
+  | CurtainAdvertisement;
+
+type BleModel = BleAdvertisement["model"];
+
+class BleDecodeError extends Error {
+  reason: string;
+
+  constructor(reason: string) {
+    super(`Invalid BLE frame: ${reason}`);
+    this.name = "BleDecodeError";
+    this.reason = reason;
+  }
+}
+
+// -- Helpers --
+
+/** Reads the byte at hex char `offset` and scales it from 0-255 to 0-100. */
+function readLevel(data: string, offset: number): number {
+  return Math.round(
+    (parseInt(data.substring(offset, offset + 2), 16) / 255) * 100
+  );
+}
+
+function validateBleFrame(macAddress: string, data: string): BleFrame {
+  macAddress = macAddress.toLowerCase();
+  data = data.trim().toLowerCase();
+
+  if (!MAC_ADDRESS_PATTERN.test(macAddress))
+    throw new BleDecodeError(`malformed MAC address ${macAddress}`);
+  if (!data) throw new BleDecodeError("no data after the MAC address");
+  if (!HEX_PATTERN.test(data))
+    throw new BleDecodeError(`data ${data} is not hex`);
+  if (data.length < MIN_DATA_LENGTH)
+    throw new BleDecodeError(
+      `truncated data ${data} (${data.length} of at least ${MIN_DATA_LENGTH} chars)`
+    );
+  if (data.length > MAX_DATA_LENGTH)
+    throw new BleDecodeError(
+      `data is ${data.length} chars, more than an advertisement holds`
+    );
+
+  return { macAddress, data };
+}
+
+// -- Decoding --
+
+/** Splits and validates a payload, throwing a `BleDecodeError` if malformed. */
+function parseBleFrame(payload: string): BleFrame {
+  const frame = payload.trim();
+  if (frame.length < MAC_ADDRESS_LENGTH)
+    throw new BleDecodeError(
+      `truncated MAC address (${frame.length} of ${MAC_ADDRESS_LENGTH} chars)`
+    );
+
+  return validateBleFrame(
+    frame.slice(0, MAC_ADDRESS_LENGTH),
+    frame.slice(MAC_ADDRESS_LENGTH)
+  );
+}
+
+/**
+ * Parses a payload of `yoswit/ble/scanners/<scanner>`, either a JSON object
+ * with `mac`, `data` and optionally `rssi` and `timestamp`, or a legacy frame.
+ */
+function parseScannerPayload(scanner: string, payload: string): BleSighting {
+  if (!scanner) throw new BleDecodeError("missing scanner id");
+  if (!payload.trimStart().startsWith("{"))
+    return { ...parseBleFrame(payload), scanner };
+
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(payload);
+  } catch {
+    throw new BleDecodeError("payload is not valid JSON");
+  }
+
+  const { mac, data, rssi, timestamp } = message;
+  if (typeof mac !== "string") throw new BleDecodeError("mac must be a string");
+  if (typeof data !== "string")
+    throw new BleDecodeError("data must be a string");
+  if (
+    rssi !== undefined &&
+    (typeof rssi !== "number" || rssi < MIN_RSSI || rssi > MAX_RSSI)
+  )
+    throw new BleDecodeError(
+      `rssi must be a number from ${MIN_RSSI} to ${MAX_RSSI}`
+    );
+  if (timestamp !== undefined && typeof timestamp !== "number")
+    throw new BleDecodeError("timestamp must be a number");
+
+  return { ...validateBleFrame(mac, data), scanner, rssi, timestamp };
+}
+
+function modelOf(type: DeviceType): BleModel {
+  switch (type) {
+    case DeviceType.SWITCH:
+    case DeviceType.FAN:
+      return "switch";
+    case DeviceType.DIMMING:
+      return "dimming";
+    case DeviceType.CURTAIN:
+      return "curtain";
+  }
+}
+
+/** Checks that the chars the decoder reads for `model` are present. */
+function validateModelData(model: BleModel, data: string) {
+  if (!HEX_PATTERN.test(data))
+    throw new BleDecodeError(`data ${data} is not hex`);
+
+  // Switches only need their status nibble, the others their level byte
+  const minLength = model === "switch" ? 1 : LEVEL_OFFSET + 2;
+  if (data.length < minLength)
+    throw new BleDecodeError(
+      `${model} data ${data} is ${data.length} chars, needs at least ${minLength}`
+    );
+}
+
+/**
+ * Decodes the data of a frame as advertised by a device of `type`, throwing a
+ * `BleDecodeError` if it lacks the chars the model is read from.
+ */
+function decodeBleData(type: DeviceType, data: string): BleAdvertisement {
+  const model = modelOf(type);
+  validateModelData(model, data);
+
+  switch (model) {
+    case "switch": {
+      // The lowest bit of the status nibble is not a gang, the others are gangs 1-3
+      const status = parseInt(data.slice(-1), 16);
+      const gangs = Array.from(
+        { length: SWITCH_GANGS },
+        (_, i) => (status & (1 << (i + 1))) !== 0
+      );
+      return { model: "switch", gangs };
+    }
+    case "dimming":
+      return { model: "dimming", brightness: readLevel(data, LEVEL_OFFSET) };
+    case "curtain":
+      // Curtain motors advertise their position where dimmers advertise brightness
+      return { model: "curtain", position: readLevel(data, LEVEL_OFFSET) };
+  }
+}
+
+export { BleDecodeError, decodeBleData, parseBleFrame, parseScannerPayload };
+export type {
+  BleAdvertisement,
+  BleFrame,
+  BleModel,
+  BleSighting,
+  CurtainAdvertisement,
+  DimmingAdvertisement,
+  SwitchAdvertisement,
+};
@@ -0,0 +1,752 @@
+import { LogLevel } from "./logger.ts";
+import OverrideService, { Overrides } from "./service/overrideService.ts";
+import { AutomationRule, weekdays } from "./service/automationService.ts";
+
+interface AccountConfig {
+  id: string; // prefixes the device ids of the account
+  name?: string;
+  baseUrl: string;
+  username: string;
+  password: string;
+  appId: string;
+}
+
+interface BrokerUserConfig {
+  username: string;
+  password: string;
+  // Topic filters the user may publish or subscribe to, every topic when unset
+  publish?: string[];
+  subscribe?: string[];
+}
+
+interface Config {
+  cloud: {
+    baseUrl: string;
+    username: string;
+    password: string;
+    appId: string;
+    startupAttempts: number;
+    requestTimeout: number; // in seconds
+    profileSyncInterval: number; // in seconds, 0 disables it
+  };
+  // Several accounts replace the credentials in `cloud`
+  accounts: AccountConfig[];
+  dataDir: string;
+  overridesFile: string; // defaults to overrides.json in dataDir
+  overrides?: Overrides; // takes precedence over overridesFile
+  broker: {
+    port: number;
+    host: string; // empty listens on every interface
+    users: BrokerUserConfig[]; // anonymous clients are allowed when empty
+    tls: { enabled: boolean; port: number; cert: string; key: string };
+    websocket: { enabled: boolean; port: number };
+  };
+  state: {
+    confirmTimeout: number; // in seconds, 0 disables it
+    maxAge: number; // in seconds, older restored states are stale, 0 never
+  };
+  ble: {
+    dedupWindow: number; // in milliseconds
+    scannerTimeout: number; // in seconds, 0 disables the silence warning
+  };
+  availability: {
+    timeout: number; // in seconds without a sighting before offline, 0 never
+    failureThreshold: number; // failed commands in a row before offline
+    failureExpiry: number; // in seconds until failed commands are forgotten, 0 never
+  };
+  automations: {
+    latitude?: number; // required by sun triggers
+    longitude?: number;
+    rules: AutomationRule[];
+  };
+  api: {
+    enabled: boolean;
+    port: number;
+    host: string; // empty listens on every interface
+    token: string; // bearer token, required when enabled
+  };
+  commands: {
+    interval: number;
+    debounce: number;
+    mergeWindow: number;
+    retries: number;
+    retryDelay: number;
+    responseTopic: string;
+    responseTimeout: number;
+  };
+  experimental: {
+    curtainControl: boolean; // the curtain motor write is not documented
+  };
+  log: {
+    level: keyof typeof LogLevel;
+  };
+  integrations: {
+    homebridge: { enabled: boolean; topicPrefix: string };
+    homeassistant: {
+      enabled: boolean;
+      discoveryPrefix: string;
+      topicPrefix: string;
+    };
+    generic: { enabled: boolean; topicPrefix: string };
+  };
+}
+
+interface ConfigField {
+  path: string;
+  env?: string;
+  type: "string" | "string[]" | "number" | "integer" | "boolean";
+  required?: boolean;
+  perAccount?: boolean; // only required without an accounts list
+  min?: number;
+  max?: number;
+  values?: readonly string[];
+}
+
+const defaultConfig: Config = {
+  cloud: {
+    baseUrl: "",
+    username: "",
+    password: "",
+    appId: "",
+    startupAttempts: 3,
+    requestTimeout: 15,
+    profileSyncInterval: 1800,
+  },
+  accounts: [],
+  dataDir: "./data",
+  overridesFile: "",
+  broker: {
+    port: 1883,
+    host: "",
+    users: [],
+    tls: { enabled: false, port: 8883, cert: "", key: "" },
+    websocket: { enabled: false, port: 8083 },
+  },
+  state: { confirmTimeout: 10, maxAge: 86400 },
+  ble: { dedupWindow: 1000, scannerTimeout: 300 },
+  availability: { timeout: 900, failureThreshold: 3, failureExpiry: 300 },
+  // Explicitly unset, so that the coordinates are known fields
+  automations: { latitude: undefined, longitude: undefined, rules: [] },
+  api: { enabled: false, port: 8080, host: "", token: "" },
+  commands: {
+    interval: 250,
+    debounce: 150,
+    mergeWindow: 50,
+    retries: 2,
+    retryDelay: 3000,
+    responseTopic: "",
+    responseTimeout: 5000,
+  },
+  experimental: { curtainControl: false },
+  log: { level: "INFO" },
+  integrations: {
+    homebridge: { enabled: true, topicPrefix: "homebridge" },
+    homeassistant: {
+      enabled: false,
+      discoveryPrefix: "homeassistant",
+      topicPrefix: "yoswit/ha",
+    },
+    generic: { enabled: true, topicPrefix: "yoswit" },
+  },
+};
+
+const integrationNames = ["homebridge", "homeassistant", "generic"] as const;
+
+const accountFields: ConfigField[] = [
+  { path: "id", type: "string", required: true },
+  { path: "name", type: "string" },
+  { path: "baseUrl", type: "string", required: true },
+  { path: "username", type: "string", required: true },
+  { path: "password", type: "string", required: true },
+  { path: "appId", type: "string", required: true },
+];
+
+const brokerUserFields: ConfigField[] = [
+  { path: "username", type: "string", required: true },
+  { path: "password", type: "string", required: true },
+  { path: "publish", type: "string[]" },
+  { path: "subscribe", type: "string[]" },
+];
+
+const automationRuleFields: ConfigField[] = [
+  { path: "id", type: "string", required: true },
+  { path: "device", type: "string", required: true },
+  { path: "autoOff", type: "number", min: 1 },
+  { path: "at", type: "string" },
+  { path: "sun", type: "string", values: ["sunrise", "sunset"] },
+  { path: "offset", type: "number" },
+  { path: "days", type: "string[]" },
+  { path: "action", type: "string", values: ["on", "off"] },
+  { path: "level", type: "number", min: 0, max: 100 },
+];
+
+const fields: ConfigField[] = [
+  {
+    path: "cloud.baseUrl",
+    env: "BASE_URL",
+    type: "string",
+    required: true,
+    perAccount: true,
+  },
+  {
+    path: "cloud.username",
+    env: "USERNAME",
+    type: "string",
+    required: true,
+    perAccount: true,
+  },
+  {
+    path: "cloud.password",
+    env: "PASSWORD",
+    type: "string",
+    required: true,
+    perAccount: true,
+  },
+  {
+    path: "cloud.appId",
+    env: "APP_ID",
+    type: "string",
+    required: true,
+    perAccount: true,
+  },
+  {
+    path: "cloud.startupAttempts",
+    env: "STARTUP_ATTEMPTS",
+    type: "integer",
+    min: 1,
+  },
+  {
+    path: "cloud.requestTimeout",
+    env: "CLOUD_REQUEST_TIMEOUT",
+    type: "number",
+    min: 1,
+  },
+  {
+    path: "cloud.profileSyncInterval",
+    env: "PROFILE_SYNC_INTERVAL",
+    type: "number",
+    min: 0,
+  },
+  { path: "dataDir", env: "DATA_DIR", type: "string", required: true },
+  { path: "overridesFile", env: "OVERRIDES_FILE", type: "string" },
+  {
+    path: "broker.port",
+    env: "AEDES_PORT",
+    type: "integer",
+    min: 0,
+    max: 65535,
+  },
+  { path: "broker.host", env: "AEDES_HOST", type: "string" },
+  { path: "broker.tls.enabled", env: "AEDES_TLS_ENABLED", type: "boolean" },
+  {
+    path: "broker.tls.port",
+    env: "AEDES_TLS_PORT",
+    type: "integer",
+    min: 0,
+    max: 65535,
+  },
+  { path: "broker.tls.cert", env: "AEDES_TLS_CERT", type: "string" },
+  { path: "broker.tls.key", env: "AEDES_TLS_KEY", type: "string" },
+  {
+    path: "broker.websocket.enabled",
+    env: "AEDES_WS_ENABLED",
+    type: "boolean",
+  },
+  {
+    path: "broker.websocket.port",
+    env: "AEDES_WS_PORT",
+    type: "integer",
+    min: 0,
+    max: 65535,
+  },
+  {
+    path: "state.confirmTimeout",
+    env: "STATE_CONFIRM_TIMEOUT",
+    type: "number",
+    min: 0,
+  },
+  { path: "state.maxAge", env: "STATE_MAX_AGE", type: "number", min: 0 },
+  {
+    path: "ble.dedupWindow",
+    env: "BLE_DEDUP_WINDOW",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "ble.scannerTimeout",
+    env: "BLE_SCANNER_TIMEOUT",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "availability.timeout",
+    env: "AVAILABILITY_TIMEOUT",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "availability.failureThreshold",
+    env: "AVAILABILITY_FAILURE_THRESHOLD",
+    type: "integer",
+    min: 1,
+  },
+  {
+    path: "availability.failureExpiry",
+    env: "AVAILABILITY_FAILURE_EXPIRY",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "automations.latitude",
+    env: "AUTOMATION_LATITUDE",
+    type: "number",
+    min: -90,
+    max: 90,
+  },
+  {
+    path: "automations.longitude",
+    env: "AUTOMATION_LONGITUDE",
+    type: "number",
+    min: -180,
+    max: 180,
+  },
+  { path: "api.enabled", env: "API_ENABLED", type: "boolean" },
+  {
+    path: "api.port",
+    env: "API_PORT",
+    type: "integer",
+    min: 0,
+    max: 65535,
+  },
+  { path: "api.host", env: "API_HOST", type: "string" },
+  { path: "api.token", env: "API_TOKEN", type: "string" },
+  {
+    path: "commands.interval",
+    env: "COMMAND_INTERVAL",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "commands.debounce",
+    env: "COMMAND_DEBOUNCE",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "commands.mergeWindow",
+    env: "COMMAND_MERGE_WINDOW",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "commands.retries",
+    env: "COMMAND_RETRIES",
+    type: "integer",
+    min: 0,
+  },
+  {
+    path: "commands.retryDelay",
+    env: "COMMAND_RETRY_DELAY",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "experimental.curtainControl",
+    env: "EXPERIMENTAL_CURTAIN_CONTROL",
+    type: "boolean",
+  },
+  {
+    path: "commands.responseTopic",
+    env: "GATEWAY_RESPONSE_TOPIC",
+    type: "string",
+  },
+  {
+    path: "commands.responseTimeout",
+    env: "GATEWAY_RESPONSE_TIMEOUT",
+    type: "number",
+    min: 0,
+  },
+  {
+    path: "log.level",
+    env: "LOG_LEVEL",
+    type: "string",
+    values: ["DEBUG", "INFO", "WARN", "ERROR"],
+  },
+  { path: "integrations.homebridge.enabled", type: "boolean" },
+  {
+    path: "integrations.homebridge.topicPrefix",
+    env: "HOMEBRIDGE_MQTT_TOPIC_PREFIX",
+    type: "string",
+    required: true,
+  },
+  { path: "integrations.homeassistant.enabled", type: "boolean" },
+  {
+    path: "integrations.homeassistant.discoveryPrefix",
+    env: "HOMEASSISTANT_DISCOVERY_PREFIX",
+    type: "string",
+    required: true,
+  },
+  {
+    path: "integrations.homeassistant.topicPrefix",
+    env: "HOMEASSISTANT_TOPIC_PREFIX",
+    type: "string",
+    required: true,
+  },
+  { path: "integrations.generic.enabled", type: "boolean" },
+  {
+    path: "integrations.generic.topicPrefix",
+    env: "GENERIC_TOPIC_PREFIX",
+    type: "string",
+    required: true,
+  },
+];
+
+class ConfigError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration:\n  ${errors.join("\n  ")}`);
+    this.name = "ConfigError";
+    this.errors = errors;
+  }
+}
+
+// -- Helpers --
+
+type ConfigObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is ConfigObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function getPath(object: ConfigObject, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isObject(value) ? value[key] : undefined),
+      object
+    );
+}
+
+function setPath(object: ConfigObject, path: string, value: unknown) {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+
+  let target = object;
+  for (const key of keys) {
+    if (!isObject(target[key])) target[key] = {};
+    target = target[key] as ConfigObject;
+  }
+  target[last] = value;
+}
+
+function merge(base: ConfigObject, override: ConfigObject): ConfigObject {
+  const merged: ConfigObject = { ...base };
+  for (const [key, value] of Object.entries(override))
+    merged[key] =
+      isObject(base[key]) && isObject(value)
+        ? merge(base[key] as ConfigObject, value)
+        : value;
+
+  return merged;
+}
+
+function findUnknownKeys(
+  object: ConfigObject,
+  shape: ConfigObject,
+  prefix = ""
+): string[] {
+  const unknown: string[] = [];
+
+  for (const [key, value] of Object.entries(object)) {
+    const path = prefix + key;
+    // Overrides have their own validation
+    if (path === "overrides") continue;
+
+    if (!(key in shape)) unknown.push(path);
+    else if (isObject(value) && isObject(shape[key]))
+      unknown.push(
+        ...findUnknownKeys(value, shape[key] as ConfigObject, `${path}.`)
+      );
+  }
+
+  return unknown;
+}
+
+function parseEnvValue(field: ConfigField, value: string): unknown {
+  switch (field.type) {
+    case "number":
+    case "integer":
+      // Invalid numbers stay strings so that validation reports them
+      return value.trim() !== "" && !isNaN(Number(value))
+        ? Number(value)
+        : value;
+    case "boolean":
+      if (["true", "1", "yes"].includes(value.toLowerCase())) return true;
+      if (["false", "0", "no"].includes(value.toLowerCase())) return false;
+      return value;
+    default:
+      return field.values ? value.toUpperCase() : value;
+  }
+}
+
+function validateField(field: ConfigField, value: unknown): string | null {
+  if (value === undefined || value === "")
+    return field.required ? "is required" : null;
+
+  switch (field.type) {
+    case "string":
+      if (typeof value !== "string") return "must be a string";
+      if (field.values && !field.values.includes(value))
+        return `must be one of ${field.values.join(", ")}`;
+      break;
+    case "string[]":
+      if (
+        !Array.isArray(value) ||
+        value.some((item) => typeof item !== "string")
+      )
+        return "must be a list of strings";
+      break;
+    case "boolean":
+      if (typeof value !== "boolean") return "must be true or false";
+      break;
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !isFinite(value))
+        return "must be a number";
+      if (field.type === "integer" && !Number.isInteger(value))
+        return "must be an integer";
+      if (field.min !== undefined && value < field.min)
+        return `must be at least ${field.min}`;
+      if (field.max !== undefined && value > field.max)
+        return `must be at most ${field.max}`;
+      break;
+  }
+
+  return null;
+}
+
+function validateList(
+  path: string,
+  list: unknown,
+  itemFields: ConfigField[],
+  key: string,
+  noun: string
+): string[] {
+  if (!Array.isArray(list)) return [`${path}: must be a list`];
+
+  const errors: string[] = [];
+  const keys: Set<unknown> = new Set();
+
+  list.forEach((item, index) => {
+    const prefix = `${path}[${index}]`;
+    if (!isObject(item)) {
+      errors.push(`${prefix}: must be an object`);
+      return;
+    }
+
+    for (const name of Object.keys(item))
+      if (!itemFields.some((field) => field.path === name))
+        errors.push(`${prefix}.${name}: unknown field`);
+
+    for (const field of itemFields) {
+      const error = validateField(field, item[field.path]);
+      if (error) errors.push(`${prefix}.${field.path}: ${error}`);
+    }
+
+    if (keys.has(item[key]))
+      errors.push(`${prefix}.${key}: duplicate ${noun} ${item[key]}`);
+    keys.add(item[key]);
+  });
+
+  return errors;
+}
+
+function validateAccounts(accounts: unknown): string[] {
+  const errors = validateList(
+    "accounts",
+    accounts,
+    accountFields,
+    "id",
+    "account"
+  );
+
+  // Ids end up in device ids and MQTT topics
+  if (Array.isArray(accounts))
+    accounts.forEach((account, index) => {
+      if (
+        typeof account?.id === "string" &&
+        !/^[a-zA-Z0-9_-]*$/.test(account.id)
+      )
+        errors.push(
+          `accounts[${index}].id: may only contain letters, digits, "_" and "-"`
+        );
+    });
+
+  return errors;
+}
+
+function validateAutomations(automations: unknown): string[] {
+  const rules = isObject(automations) ? automations.rules : undefined;
+  const errors = validateList(
+    "automations.rules",
+    rules,
+    automationRuleFields,
+    "id",
+    "automation"
+  );
+  if (!isObject(automations) || !Array.isArray(rules)) return errors;
+
+  const hasCoordinates =
+    typeof automations.latitude === "number" &&
+    typeof automations.longitude === "number";
+
+  rules.forEach((rule, index) => {
+    if (!isObject(rule)) return;
+    const prefix = `automations.rules[${index}]`;
+
+    const triggers = ["autoOff", "at", "sun"].filter(
+      (trigger) => rule[trigger] !== undefined
+    );
+    if (triggers.length !== 1)
+      errors.push(`${prefix}: needs exactly one of autoOff, at and sun`);
+
+    if (
+      typeof rule.at === "string" &&
+      !/^([01]?\d|2[0-3]):[0-5]\d$/.test(rule.at)
+    )
+      errors.push(`${prefix}.at: must be a time as HH:MM`);
+    if (rule.autoOff === undefined && rule.action === undefined)
+      errors.push(`${prefix}.action: is required for schedules`);
+    // Auto-off always turns off, whatever the day
+    if (rule.autoOff !== undefined)
+      for (const field of ["days", "action"])
+        if (rule[field] !== undefined)
+          errors.push(`${prefix}.${field}: only applies to schedules`);
+    if (rule.sun !== undefined && !hasCoordinates)
+      errors.push(
+        `${prefix}.sun: needs automations.latitude and automations.longitude`
+      );
+
+    if (Array.isArray(rule.days))
+      for (const day of rule.days)
+        if (!(weekdays as readonly unknown[]).includes(day))
+          errors.push(
+            `${prefix}.days: unknown day ${day}, use ${weekdays.join(", ")}`
+          );
+  });
+
+  return errors;
+}
+
+// -- Loading --
+
+/**
+ * Reads the JSON config file at `path`, applies the environment variable
+ * overrides and validates the result, reporting every invalid field at once.
+ */
+async function loadConfig(
+  path: string,
+  env: Record<string, string> = Deno.env.toObject()
+): Promise<Config> {
+  let file: ConfigObject = {};
+  try {
+    const parsed = JSON.parse(await Deno.readTextFile(path));
+    if (!isObject(parsed))
+      throw new ConfigError([`${path}: must contain a JSON object`]);
+
+    file = parsed;
+  } catch (error) {
+    if (error instanceof ConfigError) throw error;
+    // Docker setups may configure everything through the environment
+    if (!(error instanceof Deno.errors.NotFound))
+      throw new ConfigError([`${path}: ${error}`]);
+  }
+
+  const errors = findUnknownKeys(
+    file,
+    defaultConfig as unknown as ConfigObject
+  ).map((key) => `${key}: unknown field`);
+
+  // Environment overrides are set in place, so the defaults are copied first
+  const config = merge(
+    structuredClone(defaultConfig) as unknown as ConfigObject,
+    file
+  );
+  const sources: Map<string, string> = new Map();
+
+  for (const field of fields) {
+    if (!field.env || env[field.env] === undefined) continue;
+    // An empty variable only unsets strings, other fields keep their value
+    if (env[field.env] === "" && field.type !== "string") continue;
+
+    setPath(config, field.path, parseEnvValue(field, env[field.env]));
+    sources.set(field.path, field.env);
+  }
+
+  // INTEGRATIONS lists the enabled integrations, e.g. `homebridge,generic`
+  if (env.INTEGRATIONS !== undefined) {
+    const enabled = env.INTEGRATIONS.split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+
+    for (const name of enabled)
+      if (!(integrationNames as readonly string[]).includes(name))
+        errors.push(`INTEGRATIONS: unknown integration ${name}`);
+
+    for (const name of integrationNames) {
+      setPath(config, `integrations.${name}.enabled`, enabled.includes(name));
+      sources.set(`integrations.${name}.enabled`, "INTEGRATIONS");
+    }
+  }
+
+  const accountErrors = validateAccounts(config.accounts);
+  const hasAccounts =
+    Array.isArray(config.accounts) && config.accounts.length > 0;
+
+  for (const field of fields) {
+    const error = validateField(
+      hasAccounts && field.perAccount ? { ...field, required: false } : field,
+      getPath(config, field.path)
+    );
+    if (!error) continue;
+
+    const source = sources.get(field.path);
+    errors.push(`${field.path}${source ? ` (from ${source})` : ""}: ${error}`);
+  }
+
+  errors.push(...accountErrors);
+  errors.push(
+    ...validateList(
+      "broker.users",
+      getPath(config, "broker.users"),
+      brokerUserFields,
+      "username",
+      "user"
+    )
+  );
+
+  errors.push(...validateAutomations(config.automations));
+
+  if (getPath(config, "broker.tls.enabled") === true)
+    for (const name of ["cert", "key"])
+      if (!getPath(config, `broker.tls.${name}`))
+        errors.push(`broker.tls.${name}: is required when TLS is enabled`);
+
+  // An open API would let anyone on the network switch the devices
+  if (getPath(config, "api.enabled") === true && !getPath(config, "api.token"))
+    errors.push("api.token: is required when the API is enabled");
+
+  if (config.overrides !== undefined)
+    try {
+      new OverrideService(config.overrides as Overrides);
+    } catch (error) {
+      errors.push(`overrides: ${(error as Error).message}`);
+    }
+
+  if (errors.length) throw new ConfigError(errors);
+  return config as unknown as Config;
+}
+
+export { ConfigError, defaultConfig, loadConfig };
+export type { AccountConfig, BrokerUserConfig, Config };
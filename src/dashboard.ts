@@ -0,0 +1,204 @@
+/**
+ * Single page dashboard served by `ApiService` at `/`. It lists the devices by
+ * room, controls them through the HTTP API and follows `/events` for live
+ * states and the activity feed.
+ */
+const dashboardHtml = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Yoswit Bridge</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0; background: #f4f4f5; color: #18181b; }
+  header { display: flex; gap: 1rem; align-items: center; padding: 0.75rem 1rem; background: #18181b; color: #fafafa; }
+  header h1 { font-size: 1.1rem; margin: 0; flex: 1; }
+  main { display: grid; grid-template-columns: minmax(0, 2fr) minmax(0, 1fr); gap: 1rem; padding: 1rem; }
+  @media (max-width: 800px) { main { grid-template-columns: 1fr; } }
+  section { background: #fff; border-radius: 8px; padding: 0.75rem 1rem; margin-bottom: 1rem; }
+  h2 { font-size: 1rem; margin: 0 0 0.5rem; }
+  .device { display: grid; grid-template-columns: 1fr auto; gap: 0.25rem 1rem; padding: 0.5rem 0; border-top: 1px solid #e4e4e7; }
+  .device:first-of-type { border-top: none; }
+  .meta { font-size: 0.75rem; color: #71717a; }
+  .pending { color: #d97706; }
+  .offline { color: #dc2626; }
+  #feed { font-family: ui-monospace, monospace; font-size: 0.75rem; max-height: 80vh; overflow-y: auto; }
+  #feed div { padding: 0.15rem 0; border-top: 1px solid #f4f4f5; word-break: break-all; }
+  .tag { display: inline-block; min-width: 5.5em; font-weight: bold; }
+  .homebridge { color: #7c3aed; } .cloud { color: #2563eb; } .ble { color: #059669; } .state { color: #71717a; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Yoswit Bridge</h1>
+  <span id="status"></span>
+  <button id="logout">Change token</button>
+</header>
+<main>
+  <div id="rooms"></div>
+  <section>
+    <h2>Activity</h2>
+    <div id="feed"></div>
+  </section>
+</main>
+<script>
+  let token = localStorage.getItem("yoswitToken");
+  if (!token) {
+    token = prompt("API token") || "";
+    localStorage.setItem("yoswitToken", token);
+  }
+  document.getElementById("logout").onclick = () => {
+    localStorage.removeItem("yoswitToken");
+    location.reload();
+  };
+
+  const devices = {};
+
+  async function api(path, body) {
+    const resp = await fetch(path, {
+      method: body ? "POST" : "GET",
+      headers: { authorization: "Bearer " + token },
+      body: body && JSON.stringify(body),
+    });
+    if (resp.status === 401) {
+      localStorage.removeItem("yoswitToken");
+      throw new Error("Invalid token, reload to enter another one");
+    }
+    const data = await resp.json();
+    if (!resp.ok) throw new Error(data.error);
+    return data;
+  }
+
+  function el(tag, attributes = {}, children = []) {
+    const node = Object.assign(document.createElement(tag), attributes);
+    node.append(...children);
+    return node;
+  }
+
+  function time(ms) {
+    return ms ? new Date(ms).toLocaleTimeString() : "never";
+  }
+
+  function control(device) {
+    const state = device.state || {};
+    if (device.type === "dimming" || device.type === "curtain") {
+      const key = device.type === "dimming" ? "brightness" : "position";
+      return el("input", {
+        type: "range", min: 0, max: 100, value: state[key] ?? (state.on ? 100 : 0),
+        onchange: (e) => send(device, { [key]: Number(e.target.value) }),
+      });
+    }
+    return el("input", {
+      type: "checkbox", checked: !!state.on,
+      onchange: (e) => send(device, { on: e.target.checked }),
+    });
+  }
+
+  function send(device, body) {
+    api("/devices/" + encodeURIComponent(device.id), body).catch((error) => alert(error.message));
+  }
+
+  function render() {
+    const rooms = {};
+    for (const device of Object.values(devices)) {
+      const room = [device.home, device.room].filter(Boolean).join(" / ") || "No room";
+      (rooms[room] ||= []).push(device);
+    }
+
+    const container = document.getElementById("rooms");
+    container.replaceChildren(...Object.keys(rooms).sort().map((room) =>
+      el("section", {}, [
+        el("h2", { textContent: room }),
+        ...rooms[room].sort((a, b) => (a.name || "").localeCompare(b.name || "")).map((device) => {
+          const state = device.state;
+          const summary = !device.online ? "no response" : !state ? "unknown" : [
+            state.on ? "on" : "off",
+            state.brightness !== undefined ? state.brightness + "%" : "",
+            state.position !== undefined ? "position " + state.position + "%" : "",
+          ].filter(Boolean).join(", ");
+          return el("div", { className: "device" }, [
+            el("div", {}, [
+              el("div", { textContent: (device.name || device.id) + " · " + summary, className: !device.online ? "offline" : state?.pending ? "pending" : "" }),
+              el("div", { className: "meta", textContent:
+                device.type + " · " + device.macAddress + " · gateway " + device.gatewayId + " · last BLE update " + time(device.bleUpdatedAt) }),
+            ]),
+            control(device),
+          ]);
+        }),
+      ])
+    ));
+  }
+
+  function addEvent(event) {
+    const feed = document.getElementById("feed");
+    feed.prepend(el("div", {}, [
+      el("span", { className: "tag " + event.type, textContent: event.type }),
+      time(event.time) + " " + event.summary,
+    ]));
+    while (feed.childElementCount > 200) feed.lastChild.remove();
+  }
+
+  async function refreshStatus() {
+    const status = await api("/status");
+    const connected = status.accounts.filter((account) => account.connected).length;
+    const alive = status.scanners.filter((scanner) => scanner.alive).length;
+    document.getElementById("status").textContent =
+      "cloud " + connected + "/" + status.accounts.length + " · broker clients " + status.broker.clients +
+      " · scanners " + alive + "/" + status.scanners.length;
+  }
+
+  async function start() {
+    Object.assign(devices, await api("/devices"));
+    render();
+    refreshStatus();
+    setInterval(() => refreshStatus().catch(() => {}), 10000);
+
+    followEvents();
+  }
+
+  function handleEvent(event) {
+    addEvent(event);
+    const device = event.type === "state" && devices[event.data.id];
+    if (device && event.data.online !== undefined) {
+      device.online = event.data.online;
+      render();
+    } else if (device) {
+      device.state = event.data.state;
+      if (device.state.source === "ble") device.bleUpdatedAt = device.state.updatedAt;
+      render();
+    }
+  }
+
+  // EventSource cannot send the token header, so the stream is read with fetch
+  async function readEvents() {
+    const resp = await fetch("/events", { headers: { authorization: "Bearer " + token } });
+    if (!resp.ok) throw new Error("Event stream failed with status " + resp.status);
+
+    const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = "";
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) return;
+
+      const messages = (buffer + value).split("\\n\\n");
+      buffer = messages.pop();
+      for (const message of messages) {
+        const data = message.match(/^data: (.*)$/m);
+        if (data) handleEvent(JSON.parse(data[1]));
+      }
+    }
+  }
+
+  function followEvents() {
+    readEvents().catch(() => {}).finally(() => setTimeout(followEvents, 5000));
+  }
+
+  start().catch((error) => {
+    document.getElementById("rooms").textContent = error.message;
+  });
+</script>
+</body>
+</html>
+`;
+
+export { dashboardHtml };
@@ -0,0 +1,214 @@
+import Aedes from "aedes";
+import { Logger } from "../logger.ts";
+import service from "../service/service.ts";
+import type AedesService from "../service/aedesService.ts";
+import {
+  DeviceType,
+  deviceTypeNames,
+  Device,
+  DeviceChanges,
+  DeviceState,
+  DeviceTypeName,
+} from "../service/deviceService.ts";
+import Integration from "./integration.ts";
+
+const logger = Logger.create("GenericIntegration");
+
+interface GenericIntegrationOptions {
+  topicPrefix: string;
+}
+
+interface GenericStatePayload {
+  id: string;
+  name?: string;
+  room?: string;
+  home?: string;
+  type: DeviceTypeName;
+  on: boolean;
+  brightness?: number;
+  position?: number;
+  pending: boolean;
+  stale: boolean;
+  online: boolean;
+  updatedAt: number;
+}
+
+interface GenericSetPayload {
+  on?: boolean;
+  brightness?: number;
+  position?: number;
+}
+
+/**
+ * Exposes every device as retained JSON on `<prefix>/<id>/state` and accepts
+ * commands on `<prefix>/<id>/set`, for scripts and Node-RED flows.
+ */
+class GenericIntegration extends Integration {
+  readonly name = "generic";
+  options: GenericIntegrationOptions;
+
+  constructor(broker: AedesService, options: GenericIntegrationOptions) {
+    super(broker);
+    this.options = options;
+  }
+
+  private stateTopicOf(device: Device): string {
+    return `${this.options.topicPrefix}/${device.id}/state`;
+  }
+
+  // -- State Handling --
+
+  private publishState(device: Device, state: DeviceState) {
+    const payload: GenericStatePayload = {
+      id: device.id,
+      name: device.name,
+      room: device.roomName,
+      home: device.home,
+      type: deviceTypeNames[device.type],
+      on: state.on,
+      brightness: state.brightness,
+      position: state.position,
+      pending: state.pending,
+      stale: state.stale ?? false,
+      online: service.availabilityService?.isOnline(device.id) ?? true,
+      updatedAt: state.updatedAt,
+    };
+
+    this.publish(this.stateTopicOf(device), JSON.stringify(payload), {
+      retain: true,
+    }).catch((err) =>
+      logger.error(`Failed to publish state for device ${device.id}:`, err)
+    );
+  }
+
+  override start() {
+    for (const device of Object.values(service.deviceService?.devices || {})) {
+      const state = service.deviceService?.getState(device.id);
+      if (state) this.publishState(device, state);
+    }
+  }
+
+  override handleDevicesChanged(changes: DeviceChanges) {
+    // An empty retained message clears the state of removed devices
+    for (const device of changes.removed)
+      this.publish(this.stateTopicOf(device), "", { retain: true }).catch(
+        (err) =>
+          logger.error(`Failed to clear state for device ${device.id}:`, err)
+      );
+
+    for (const { after } of changes.renamed) {
+      const state = service.deviceService?.getState(after.id);
+      if (state) this.publishState(after, state);
+    }
+  }
+
+  override handleStateChange(device: Device, state: DeviceState) {
+    this.publishState(device, state);
+  }
+
+  override handleAvailabilityChange(device: Device) {
+    const state = service.deviceService?.getState(device.id);
+    if (state) this.publishState(device, state);
+  }
+
+  // -- Command Handling --
+
+  private parseSetPayload(payload: string): GenericSetPayload {
+    const value = payload.trim().toLowerCase();
+
+    // Plain values keep `mosquitto_pub -m on` style scripts short
+    if (["on", "true", "1"].includes(value)) return { on: true };
+    if (["off", "false", "0"].includes(value)) return { on: false };
+    if (/^\d+$/.test(value)) return { brightness: Number(value) };
+
+    const parsed = JSON.parse(payload);
+    if (typeof parsed !== "object" || parsed === null)
+      throw new Error(`Invalid payload: ${payload}`);
+
+    return parsed;
+  }
+
+  // The fields a device type acts on, payloads with none of them are rejected
+  // instead of being read as "off"
+  private hasRelevantField(type: DeviceType, payload: GenericSetPayload) {
+    const fields: (keyof GenericSetPayload)[] =
+      type === DeviceType.CURTAIN
+        ? ["on", "brightness", "position"]
+        : ["on", "brightness"];
+
+    return fields.some((field) => payload[field] !== undefined);
+  }
+
+  private handleSet(id: string, payload: GenericSetPayload) {
+    // Scenes are triggered by any payload turning them on
+    if (service.deviceService?.getScene(id)) {
+      if (!payload.on) return;
+
+      try {
+        service.deviceService.runScene(id);
+      } catch (error) {
+        logger.error(`Failed to run scene ${id}:`, error);
+      }
+      return;
+    }
+
+    const device = service.deviceService?.getByName(id);
+    if (!device) {
+      logger.error(`Device with name ${id} not found`);
+      return;
+    }
+
+    if (!this.hasRelevantField(device.type, payload)) {
+      logger.error(
+        `Ignoring payload for ${deviceTypeNames[device.type]} ${id} without a usable field:`,
+        payload
+      );
+      return;
+    }
+
+    logger.info(`Setting device ${id}:`, payload);
+
+    try {
+      if (device.type === DeviceType.SWITCH || device.type === DeviceType.FAN) {
+        const on = payload.on ?? (payload.brightness ?? 0) > 0;
+        service.deviceService?.switchDevice(id, on);
+      } else if (device.type === DeviceType.CURTAIN) {
+        // Plain numbers are parsed as brightness, curtains take them as position
+        const position =
+          payload.position ??
+          payload.brightness ??
+          (payload.on === undefined ? undefined : payload.on ? 100 : 0);
+        if (position !== undefined)
+          service.deviceService?.curtainDevice(id, Number(position));
+      } else if (device.type === DeviceType.DIMMING) {
+        if (payload.on === false) service.deviceService?.dimmingDevice(id, 0);
+        else if (payload.brightness !== undefined)
+          service.deviceService?.dimmingDevice(id, Number(payload.brightness));
+        else if (payload.on) {
+          // Turn on at the last known brightness
+          const brightness = service.deviceService?.getState(id)?.brightness;
+          service.deviceService?.dimmingDevice(id, brightness || 100);
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to set device ${id}:`, error);
+    }
+  }
+
+  // -- Broker Event Handling --
+
+  override handlePublish(packet: Aedes.PublishPacket, _client: Aedes.Client) {
+    const prefix = `${this.options.topicPrefix}/`;
+    if (!packet.topic.startsWith(prefix) || !packet.topic.endsWith("/set"))
+      return;
+
+    // Device ids never contain a slash, so deeper topics belong to others
+    const id = packet.topic.slice(prefix.length, -"/set".length);
+    if (!id || id.includes("/")) return;
+
+    this.handleSet(id, this.parseSetPayload(packet.payload.toString()));
+  }
+}
+
+export default GenericIntegration;
+export type { GenericIntegrationOptions, GenericSetPayload };
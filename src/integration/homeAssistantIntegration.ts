@@ -0,0 +1,338 @@
+import Aedes from "aedes";
+import { Logger } from "../logger.ts";
+import service from "../service/service.ts";
+import type AedesService from "../service/aedesService.ts";
+import {
+  DeviceType,
+  Device,
+  DeviceChanges,
+  DeviceState,
+  Scene,
+  SceneChanges,
+} from "../service/deviceService.ts";
+import OverrideService from "../service/overrideService.ts";
+import Integration from "./integration.ts";
+
+const logger = Logger.create("HomeAssistantIntegration");
+
+interface HomeAssistantIntegrationOptions {
+  discoveryPrefix: string;
+  topicPrefix: string;
+}
+
+interface HomeAssistantCommandPayload {
+  state?: "ON" | "OFF";
+  brightness?: number;
+  position?: number;
+}
+
+/**
+ * Publishes retained Home Assistant MQTT discovery messages and exposes each
+ * device as a light, cover or fan on `<prefix>/<id>/state` and `<prefix>/<id>/set`.
+ */
+class HomeAssistantIntegration extends Integration {
+  readonly name = "homeassistant";
+  options: HomeAssistantIntegrationOptions;
+
+  constructor(broker: AedesService, options: HomeAssistantIntegrationOptions) {
+    super(broker);
+    this.options = options;
+  }
+
+  private get availabilityTopic(): string {
+    return `${this.options.topicPrefix}/status`;
+  }
+
+  private objectIdOf(device: Device | Scene): string {
+    // Discovery topics only allow a limited set of characters
+    return device.id.replace(/[^a-zA-Z0-9_-]/g, "_");
+  }
+
+  private componentOf(device: Device): string | null {
+    switch (device.type) {
+      case DeviceType.SWITCH:
+      case DeviceType.DIMMING:
+        return "light";
+      case DeviceType.CURTAIN:
+        return "cover";
+      case DeviceType.FAN:
+        return "fan";
+      default:
+        return null;
+    }
+  }
+
+  private configTopicOf(device: Device): string {
+    return `${this.options.discoveryPrefix}/${this.componentOf(
+      device
+    )}/${this.objectIdOf(device)}/config`;
+  }
+
+  private stateTopicOf(device: Device): string {
+    return `${this.options.topicPrefix}/${device.id}/state`;
+  }
+
+  private availabilityTopicOf(device: Device): string {
+    return `${this.options.topicPrefix}/${device.id}/availability`;
+  }
+
+  // -- Discovery --
+
+  private entityConfigOf(device: Device): Record<string, unknown> {
+    const commandTopic = `${this.options.topicPrefix}/${device.id}/set`;
+
+    switch (device.type) {
+      case DeviceType.CURTAIN:
+        // Covers have no JSON schema, every action is mapped to a position
+        return {
+          command_topic: commandTopic,
+          payload_open: JSON.stringify({ position: 100 }),
+          payload_close: JSON.stringify({ position: 0 }),
+          payload_stop: null,
+          position_topic: this.stateTopicOf(device),
+          position_template: "{{ value_json.position }}",
+          set_position_topic: commandTopic,
+          set_position_template: '{"position": {{ position }}}',
+        };
+      case DeviceType.FAN:
+        return {
+          command_topic: commandTopic,
+          command_template: '{"state": "{{ value }}"}',
+          state_topic: this.stateTopicOf(device),
+          state_value_template: "{{ value_json.state }}",
+        };
+      default: {
+        const isDimming = device.type === DeviceType.DIMMING;
+        return {
+          schema: "json",
+          state_topic: this.stateTopicOf(device),
+          command_topic: commandTopic,
+          brightness: isDimming,
+          brightness_scale: 100,
+          supported_color_modes: isDimming ? ["brightness"] : ["onoff"],
+        };
+      }
+    }
+  }
+
+  private publishDiscovery(device: Device) {
+    if (!this.componentOf(device)) return;
+
+    const config = {
+      name: null,
+      unique_id: `yoswit_${this.objectIdOf(device)}`,
+      // Entities are unavailable while the bridge or the device is offline
+      availability: [
+        { topic: this.availabilityTopic },
+        { topic: this.availabilityTopicOf(device) },
+      ],
+      availability_mode: "all",
+      ...this.entityConfigOf(device),
+      device: {
+        identifiers: [`yoswit_${this.objectIdOf(device)}`],
+        name: OverrideService.withHome(
+          device.name || "Unnamed Device",
+          device.home
+        ),
+        manufacturer: "Yoswit",
+        suggested_area: device.roomName,
+      },
+    };
+
+    this.publish(this.configTopicOf(device), JSON.stringify(config), {
+      retain: true,
+    }).then(
+      () => logger.info(`Published discovery config for device ${device.id}`),
+      (err) =>
+        logger.error(
+          `Failed to publish discovery config for device ${device.id}:`,
+          err
+        )
+    );
+  }
+
+  private removeDiscovery(device: Device) {
+    // An empty retained config removes the entity from Home Assistant
+    for (const topic of [
+      this.configTopicOf(device),
+      this.stateTopicOf(device),
+      this.availabilityTopicOf(device),
+    ])
+      this.publish(topic, "", { retain: true }).catch((err) =>
+        logger.error(`Failed to clear ${topic}:`, err)
+      );
+
+    logger.info(`Removed discovery config for device ${device.id}`);
+  }
+
+  private sceneConfigTopicOf(scene: Scene): string {
+    return `${this.options.discoveryPrefix}/scene/${this.objectIdOf(
+      scene
+    )}/config`;
+  }
+
+  private publishSceneDiscovery(scene: Scene) {
+    const config = {
+      name: OverrideService.withHome(
+        scene.name || "Unnamed Scene",
+        scene.home
+      ),
+      unique_id: `yoswit_${this.objectIdOf(scene)}`,
+      availability_topic: this.availabilityTopic,
+      command_topic: `${this.options.topicPrefix}/${scene.id}/set`,
+      payload_on: JSON.stringify({ state: "ON" }),
+    };
+
+    this.publish(this.sceneConfigTopicOf(scene), JSON.stringify(config), {
+      retain: true,
+    }).catch((err) =>
+      logger.error(
+        `Failed to publish discovery config for scene ${scene.id}:`,
+        err
+      )
+    );
+  }
+
+  private publishAll() {
+    this.publish(this.availabilityTopic, "online", { retain: true }).catch(
+      (err) => logger.error("Failed to publish availability:", err)
+    );
+
+    for (const device of Object.values(service.deviceService?.devices || {})) {
+      this.publishDiscovery(device);
+      this.handleAvailabilityChange(
+        device,
+        service.availabilityService?.isOnline(device.id) ?? true
+      );
+
+      const state = service.deviceService?.getState(device.id);
+      if (state && !state.stale) this.handleStateChange(device, state);
+    }
+
+    for (const scene of Object.values(service.deviceService?.scenes || {}))
+      this.publishSceneDiscovery(scene);
+  }
+
+  override start() {
+    this.publishAll();
+  }
+
+  override handleDevicesChanged(changes: DeviceChanges) {
+    for (const device of changes.removed) this.removeDiscovery(device);
+    for (const { after } of changes.renamed) this.publishDiscovery(after);
+    for (const device of changes.added) {
+      this.publishDiscovery(device);
+      this.handleAvailabilityChange(device, true);
+    }
+  }
+
+  override handleScenesChanged(changes: SceneChanges) {
+    for (const scene of changes.removed)
+      this.publish(this.sceneConfigTopicOf(scene), "", { retain: true }).catch(
+        (err) => logger.error(`Failed to clear scene ${scene.id}:`, err)
+      );
+    for (const { after } of changes.renamed) this.publishSceneDiscovery(after);
+    for (const scene of changes.added) this.publishSceneDiscovery(scene);
+  }
+
+  // -- State Handling --
+
+  override handleStateChange(device: Device, state: DeviceState) {
+    // Stale states may be wrong, the entity is unavailable instead
+    if (state.stale) return;
+
+    const payload: HomeAssistantCommandPayload = {
+      state: state.on ? "ON" : "OFF",
+    };
+    if (device.type === DeviceType.DIMMING && state.brightness !== undefined)
+      payload.brightness = state.brightness;
+    if (device.type === DeviceType.CURTAIN)
+      payload.position = state.position ?? (state.on ? 100 : 0);
+
+    this.publish(this.stateTopicOf(device), JSON.stringify(payload), {
+      retain: true,
+    }).catch((err) =>
+      logger.error(`Failed to publish state for device ${device.id}:`, err)
+    );
+  }
+
+  override handleAvailabilityChange(device: Device, online: boolean) {
+    this.publish(
+      this.availabilityTopicOf(device),
+      online ? "online" : "offline",
+      { retain: true }
+    ).catch((err) =>
+      logger.error(
+        `Failed to publish availability for device ${device.id}:`,
+        err
+      )
+    );
+  }
+
+  private handleCommand(id: string, payload: HomeAssistantCommandPayload) {
+    if (service.deviceService?.getScene(id)) {
+      if (payload.state !== "ON") return;
+
+      try {
+        service.deviceService.runScene(id);
+      } catch (error) {
+        logger.error(`Failed to run scene ${id}:`, error);
+      }
+      return;
+    }
+
+    const device = service.deviceService?.getByName(id);
+    if (!device) {
+      logger.error(`Device with name ${id} not found`);
+      return;
+    }
+
+    logger.info(`Setting device ${id}:`, payload);
+
+    try {
+      if (device.type === DeviceType.SWITCH || device.type === DeviceType.FAN) {
+        if (payload.state)
+          service.deviceService?.switchDevice(id, payload.state === "ON");
+      } else if (device.type === DeviceType.CURTAIN) {
+        if (payload.position !== undefined)
+          service.deviceService?.curtainDevice(id, Number(payload.position));
+      } else if (device.type === DeviceType.DIMMING) {
+        if (payload.state === "OFF")
+          service.deviceService?.dimmingDevice(id, 0);
+        else if (payload.brightness !== undefined)
+          service.deviceService?.dimmingDevice(id, Number(payload.brightness));
+        else if (payload.state === "ON") {
+          // Turn on at the last known brightness
+          const brightness = service.deviceService?.getState(id)?.brightness;
+          service.deviceService?.dimmingDevice(id, brightness || 100);
+        }
+      }
+    } catch (error) {
+      logger.error(`Failed to set device ${id}:`, error);
+    }
+  }
+
+  // -- Broker Event Handling --
+
+  override handlePublish(packet: Aedes.PublishPacket, _client: Aedes.Client) {
+    // Home Assistant announces itself after a restart
+    if (
+      packet.topic === `${this.options.discoveryPrefix}/status` &&
+      packet.payload.toString() === "online"
+    ) {
+      logger.info("Home Assistant came online, republishing discovery");
+      this.publishAll();
+      return;
+    }
+
+    const prefix = `${this.options.topicPrefix}/`;
+    if (!packet.topic.startsWith(prefix) || !packet.topic.endsWith("/set"))
+      return;
+
+    const id = packet.topic.slice(prefix.length, -"/set".length);
+    this.handleCommand(id, JSON.parse(packet.payload.toString()));
+  }
+}
+
+export default HomeAssistantIntegration;
+export type { HomeAssistantIntegrationOptions };
@@ -0,0 +1,520 @@
+import Aedes from "aedes";
+import { nanoid } from "@sitnik/nanoid";
+import { Logger } from "../logger.ts";
+import service from "../service/service.ts";
+import type AedesService from "../service/aedesService.ts";
+import {
+  DeviceType,
+  Device,
+  DeviceChanges,
+  DeviceState,
+  Scene,
+  SceneChanges,
+} from "../service/deviceService.ts";
+import OverrideService from "../service/overrideService.ts";
+import Integration from "./integration.ts";
+
+const logger = Logger.create("HomebridgeIntegration");
+
+interface HomebridgeIntegrationOptions {
+  topicPrefix: string;
+}
+
+interface HomebridgeResponsePayload {
+  ack: boolean;
+  message: string;
+  request_id?: string;
+}
+
+// Devices and scenes are both published as accessories
+type Accessory = Pick<Device, "id" | "name" | "roomName" | "home">;
+
+interface HomebridgeSetPayload {
+  name: string;
+  value: boolean | number;
+  characteristic: string;
+}
+
+type HomebridgeGetPayload = Omit<HomebridgeSetPayload, "value">;
+
+type CharacteristicValues = Record<string, boolean | number>;
+
+interface AccessoryService {
+  service: string;
+  properties?: Record<string, string>;
+}
+
+/**
+ * Speaks the homebridge-mqtt protocol (`<prefix>/to/*` and `<prefix>/from/*`).
+ */
+class HomebridgeIntegration extends Integration {
+  readonly name = "homebridge";
+  options: HomebridgeIntegrationOptions;
+  private pendingAccessoryRequests: Map<
+    string,
+    { action: "add" | "remove"; deviceId: string; sentAt: number }
+  > = new Map();
+  // homebridge-mqtt finds services by the name they were added with
+  private addedServiceNames: Map<string, string> = new Map();
+
+  constructor(broker: AedesService, options: HomebridgeIntegrationOptions) {
+    super(broker);
+    this.options = options;
+  }
+
+  // -- Homebridge Event Handling --
+
+  private handleSceneSetMessage(scene: Scene, payload: HomebridgeSetPayload) {
+    if (payload.characteristic !== "On" || !payload.value) return;
+
+    try {
+      service.deviceService?.runScene(scene.id);
+    } catch (error) {
+      logger.error(`Failed to run scene ${scene.id}:`, error);
+    }
+
+    // Scenes are stateless, so the switch turns itself off again
+    setTimeout(() => this.setCharacteristic(scene, "On", false), 1000);
+  }
+
+  private handleHomebridgeSetMessage(payload: HomebridgeSetPayload) {
+    const scene = service.deviceService?.getScene(payload.name);
+    if (scene) {
+      this.handleSceneSetMessage(scene, payload);
+      return;
+    }
+
+    const device = service.deviceService?.getByName(payload.name);
+    if (!device) {
+      this.removeUnknownAccessory(payload.name);
+      return;
+    }
+
+    switch (payload.characteristic) {
+      case "On":
+        if (
+          device.type !== DeviceType.SWITCH &&
+          device.type !== DeviceType.DIMMING &&
+          device.type !== DeviceType.FAN
+        ) {
+          this.handleHomebridgeGetMessage(payload);
+          return;
+        }
+
+        try {
+          if (device.type !== DeviceType.DIMMING) {
+            logger.info(
+              `Setting device ${payload.name} to value: ${payload.value}`
+            );
+
+            service.deviceService?.switchDevice(
+              payload.name,
+              Boolean(payload.value)
+            );
+          } else {
+            const brightness = payload.value ? 100 : 0;
+            logger.info(
+              `Setting device ${payload.name} to brightness: ${brightness}`
+            );
+
+            service.deviceService?.dimmingDevice(payload.name, brightness);
+          }
+        } catch (error) {
+          logger.error(`Failed to switch device ${payload.name}:`, error);
+        }
+        break;
+      case "Brightness":
+        if (device.type !== DeviceType.DIMMING) {
+          this.handleHomebridgeGetMessage(payload);
+          return;
+        }
+
+        logger.info(
+          `Setting dimming device ${payload.name} to brightness: ${payload.value}`
+        );
+
+        try {
+          service.deviceService?.dimmingDevice(
+            payload.name,
+            Number(payload.value)
+          );
+        } catch (error) {
+          logger.error(`Failed to dim device ${payload.name}:`, error);
+        }
+
+        break;
+      case "TargetPosition":
+        if (device.type !== DeviceType.CURTAIN) {
+          this.handleHomebridgeGetMessage(payload);
+          return;
+        }
+
+        logger.info(
+          `Moving curtain ${payload.name} to position: ${payload.value}`
+        );
+
+        try {
+          service.deviceService?.curtainDevice(
+            payload.name,
+            Number(payload.value)
+          );
+        } catch (error) {
+          logger.error(`Failed to move curtain ${payload.name}:`, error);
+        }
+
+        break;
+      default:
+        // Read-only and unsupported characteristics keep the known value
+        this.handleHomebridgeGetMessage(payload);
+        break;
+    }
+  }
+
+  private handleHomebridgeGetMessage(payload: HomebridgeGetPayload) {
+    const { name, characteristic } = payload;
+
+    // Scenes are stateless switches, so they are always off
+    const scene = service.deviceService?.getScene(name);
+    if (scene) {
+      if (characteristic === "On") this.setCharacteristic(scene, "On", false);
+      else
+        this.rejectRequest(payload, `Scene ${name} has no ${characteristic}`);
+      return;
+    }
+
+    const device = service.deviceService?.getByName(name);
+    if (!device) {
+      this.removeUnknownAccessory(name);
+      return;
+    }
+
+    const state = service.deviceService?.getState(name);
+    // Stale states may be wrong, Homebridge keeps its own value instead
+    if (!state || state.stale) {
+      this.rejectRequest(payload, `No known state for device ${name}`);
+      return;
+    }
+
+    const value = this.characteristicsOf(device, state)[characteristic];
+    if (value === undefined) {
+      this.rejectRequest(
+        payload,
+        `Device ${name} has no known ${characteristic}`
+      );
+      return;
+    }
+
+    this.setCharacteristic(device, characteristic, value);
+  }
+
+  /**
+   * Answers requests for devices that no longer exist by removing the
+   * accessory Homebridge still has cached for them.
+   */
+  private removeUnknownAccessory(name: string) {
+    // Without a profile every device would look unknown
+    if (!service.deviceService) return;
+    for (const request of this.pendingAccessoryRequests.values())
+      if (request.action === "remove" && request.deviceId === name) return;
+
+    logger.warn(`Device ${name} not found, removing its accessory`);
+    this.addedServiceNames.delete(name);
+    this.sendAccessoryRequest("remove", { id: name }, { name });
+  }
+
+  /** homebridge-mqtt has no error topic, so such requests are only logged. */
+  private rejectRequest(payload: HomebridgeGetPayload, message: string) {
+    logger.warn(
+      `Ignoring ${payload.characteristic} request for ${payload.name}: ${message}`
+    );
+  }
+
+  private sendAccessoryRequest(
+    action: "add" | "remove",
+    device: Pick<Accessory, "id">,
+    payload: Record<string, unknown>
+  ) {
+    const requestId = nanoid(12);
+    this.pendingAccessoryRequests.set(requestId, {
+      action,
+      deviceId: device.id,
+      sentAt: Date.now(),
+    });
+    this.prunePendingAccessoryRequests();
+
+    const topic = `${this.options.topicPrefix}/to/${action}`;
+
+    this.publish(
+      topic,
+      JSON.stringify({ ...payload, request_id: requestId })
+    ).then(
+      () =>
+        logger.info(
+          `Published ${action} device message for device ${device.id} to topic ${topic}`
+        ),
+      (err) =>
+        logger.error(
+          `Failed to publish ${action} device message for device ${device.id}:`,
+          err
+        )
+    );
+  }
+
+  private prunePendingAccessoryRequests() {
+    // Homebridge may not be connected, so unanswered requests are dropped after a while
+    const expiredBefore = Date.now() - 60 * 1000;
+    for (const [requestId, request] of this.pendingAccessoryRequests)
+      if (request.sentAt < expiredBefore)
+        this.pendingAccessoryRequests.delete(requestId);
+  }
+
+  private addDevice(
+    device: Accessory,
+    service: string,
+    additionalProperties?: Record<string, string>
+  ) {
+    const serviceName = this.serviceNameOf(device);
+    this.addedServiceNames.set(device.id, serviceName);
+
+    this.sendAccessoryRequest("add", device, {
+      name: device.id,
+      service_name: serviceName,
+      service,
+      ...additionalProperties,
+    });
+  }
+
+  private serviceNameOf(device: Accessory): string {
+    return (service.overrideService ?? new OverrideService()).serviceNameOf(
+      device
+    );
+  }
+
+  private removeDevice(device: Accessory) {
+    this.addedServiceNames.delete(device.id);
+    this.sendAccessoryRequest("remove", device, { name: device.id });
+  }
+
+  private handleHomebridgeResponse(payload: HomebridgeResponsePayload) {
+    const request = payload.request_id
+      ? this.pendingAccessoryRequests.get(payload.request_id)
+      : undefined;
+
+    if (!request) {
+      logger.debug("Homebridge response:", payload);
+      return;
+    }
+
+    this.pendingAccessoryRequests.delete(payload.request_id!);
+
+    if (payload.ack)
+      logger.info(
+        `Homebridge accepted ${request.action} for device ${request.deviceId}: ${payload.message}`
+      );
+    else
+      logger.warn(
+        `Homebridge rejected ${request.action} for device ${request.deviceId}: ${payload.message}`
+      );
+  }
+
+  private accessoryServiceOf(device: Device): AccessoryService | undefined {
+    const homeKitService = service.overrideService?.homeKitServiceOf(device);
+
+    switch (device.type) {
+      case DeviceType.SWITCH:
+        return { service: homeKitService ?? "Lightbulb" };
+      case DeviceType.DIMMING:
+        return { service: "Lightbulb", properties: { Brightness: "default" } };
+      case DeviceType.CURTAIN:
+        return { service: "WindowCovering" };
+      case DeviceType.FAN:
+        return { service: homeKitService ?? "Fan" };
+      default:
+        return undefined;
+    }
+  }
+
+  private publishDeviceAddition(device: Device) {
+    const accessoryService = this.accessoryServiceOf(device);
+    if (!accessoryService) {
+      logger.warn("Unknown device type for device", device);
+      return;
+    }
+
+    this.addDevice(
+      device,
+      accessoryService.service,
+      accessoryService.properties
+    );
+  }
+
+  override handleDevicesChanged(changes: DeviceChanges) {
+    for (const device of changes.removed) this.removeDevice(device);
+
+    // homebridge-mqtt cannot rename an accessory, so it is added again
+    for (const { before, after } of changes.renamed) {
+      this.removeDevice(before);
+      this.publishDeviceAddition(after);
+    }
+
+    for (const device of changes.added) this.publishDeviceAddition(device);
+
+    // Restore the known state of the re-added accessories
+    for (const { after } of changes.renamed) {
+      const state = service.deviceService?.getState(after.id);
+      if (state) this.handleStateChange(after, state);
+    }
+  }
+
+  override handleScenesChanged(changes: SceneChanges) {
+    for (const scene of changes.removed) this.removeDevice(scene);
+
+    for (const { before, after } of changes.renamed) {
+      this.removeDevice(before);
+      this.addDevice(after, "Switch");
+    }
+
+    for (const scene of changes.added) this.addDevice(scene, "Switch");
+  }
+
+  // -- State Handling --
+
+  private setCharacteristic(
+    device: Accessory,
+    characteristic: string,
+    value: boolean | number
+  ) {
+    const topic = `${this.options.topicPrefix}/to/set`;
+    const payload = JSON.stringify({
+      name: device.id,
+      service_name:
+        this.addedServiceNames.get(device.id) ?? this.serviceNameOf(device),
+      characteristic,
+      value,
+    });
+
+    this.publish(topic, payload).then(
+      () => {
+        logger.info(
+          `Published ${characteristic} update for device ${device.id} to topic ${topic}`
+        );
+        logger.debug(`Payload: ${payload}`);
+      },
+      (err) =>
+        logger.error(
+          `Failed to publish ${characteristic} update for device ${device.id}:`,
+          err
+        )
+    );
+  }
+
+  private setReachability(device: Accessory, reachable: boolean) {
+    // homebridge-mqtt shows unreachable accessories as "No Response"
+    const topic = `${this.options.topicPrefix}/to/set/reachability`;
+    const payload = JSON.stringify({ name: device.id, reachable });
+
+    this.publish(topic, payload).then(
+      () =>
+        logger.info(
+          `Published reachability ${reachable} for device ${device.id} to topic ${topic}`
+        ),
+      (err) =>
+        logger.error(
+          `Failed to publish reachability for device ${device.id}:`,
+          err
+        )
+    );
+  }
+
+  override handleAvailabilityChange(device: Device, online: boolean) {
+    this.setReachability(device, online);
+  }
+
+  /** The characteristic values of a state, in the order they are published. */
+  private characteristicsOf(
+    device: Device,
+    state: DeviceState
+  ): CharacteristicValues {
+    switch (device.type) {
+      case DeviceType.SWITCH:
+      case DeviceType.FAN:
+        return { On: state.on };
+      case DeviceType.CURTAIN: {
+        const position = state.position ?? (state.on ? 100 : 0);
+        return {
+          CurrentPosition: position,
+          TargetPosition: position,
+          // The motor does not report its movement, so it is always stopped
+          PositionState: 2,
+        };
+      }
+      case DeviceType.DIMMING:
+        return state.brightness !== undefined
+          ? { Brightness: state.brightness, On: state.on }
+          : { On: state.on };
+      default:
+        logger.warn("Unknown device type for device", device);
+        return {};
+    }
+  }
+
+  override handleStateChange(device: Device, state: DeviceState) {
+    // Stale states may be wrong, the accessory is reported unreachable instead
+    if (state.stale) return;
+
+    for (const [characteristic, value] of Object.entries(
+      this.characteristicsOf(device, state)
+    ))
+      this.setCharacteristic(device, characteristic, value);
+  }
+
+  // -- Broker Event Handling --
+
+  override handlePublish(packet: Aedes.PublishPacket, _client: Aedes.Client) {
+    if (packet.topic === `${this.options.topicPrefix}/from/set`) {
+      const payload = JSON.parse(packet.payload.toString());
+      service.eventService?.emit(
+        "homebridge",
+        `${payload.name} ${payload.characteristic} = ${payload.value}`,
+        payload
+      );
+      this.handleHomebridgeSetMessage(payload);
+    }
+
+    if (packet.topic === `${this.options.topicPrefix}/from/get`) {
+      const payload = JSON.parse(packet.payload.toString());
+      this.handleHomebridgeGetMessage(payload);
+    }
+
+    if (packet.topic === `${this.options.topicPrefix}/from/response`) {
+      const payload = JSON.parse(packet.payload.toString());
+      this.handleHomebridgeResponse(payload);
+    }
+  }
+
+  override handleSubscription(
+    subscription: Aedes.Subscription,
+    client: Aedes.Client
+  ) {
+    if (subscription.topic !== `${this.options.topicPrefix}/to/#`) return;
+
+    const devices = Object.values(service.deviceService?.devices || {});
+
+    for (const device of devices) this.publishDeviceAddition(device);
+    for (const scene of Object.values(service.deviceService?.scenes || {}))
+      this.addDevice(scene, "Switch");
+
+    // Replay the known device states for this new subscription
+    logger.info(`Replaying known device states for client ${client.id}`);
+    for (const device of devices) {
+      const state = service.deviceService?.getState(device.id);
+      // Stale states may be wrong, Homebridge keeps its own until a fresh one
+      if (state && !state.stale) this.handleStateChange(device, state);
+      if (service.availabilityService?.isOnline(device.id) === false)
+        this.setReachability(device, false);
+    }
+  }
+}
+
+export default HomebridgeIntegration;
+export type { HomebridgeIntegrationOptions };
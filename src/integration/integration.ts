@@ -0,0 +1,66 @@
+import Aedes from "aedes";
+import type AedesService from "../service/aedesService.ts";
+import type {
+  Device,
+  DeviceChanges,
+  DeviceState,
+  SceneChanges,
+} from "../service/deviceService.ts";
+
+interface PublishOptions {
+  qos?: 0 | 1;
+  retain?: boolean;
+}
+
+/**
+ * A protocol exposing the devices on the embedded broker. The broker forwards
+ * client messages and device events to every registered integration.
+ */
+abstract class Integration {
+  abstract readonly name: string;
+  protected broker: AedesService;
+
+  constructor(broker: AedesService) {
+    this.broker = broker;
+  }
+
+  start() {}
+
+  handlePublish(_packet: Aedes.PublishPacket, _client: Aedes.Client) {}
+
+  handleSubscription(
+    _subscription: Aedes.Subscription,
+    _client: Aedes.Client
+  ) {}
+
+  handleDevicesChanged(_changes: DeviceChanges) {}
+
+  handleScenesChanged(_changes: SceneChanges) {}
+
+  handleStateChange(_device: Device, _state: DeviceState) {}
+
+  handleAvailabilityChange(_device: Device, _online: boolean) {}
+
+  protected publish(
+    topic: string,
+    payload: string,
+    options: PublishOptions = {}
+  ): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.broker.aedes.publish(
+        {
+          topic,
+          payload,
+          qos: options.qos ?? 1,
+          retain: options.retain ?? false,
+          dup: false,
+          cmd: "publish",
+        },
+        (err) => (err ? reject(err) : resolve())
+      )
+    );
+  }
+}
+
+export default Integration;
+export type { PublishOptions };
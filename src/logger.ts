@@ -11,13 +11,14 @@ interface LoggerOptions {
 }
 
 class Logger {
-  private level: LogLevel;
+  // Follows the global level unless set, loggers are created before the config is loaded
+  private level?: LogLevel;
   private module?: string;
 
   private static globalLevel: LogLevel = LogLevel.INFO;
 
   constructor(options: LoggerOptions = {}) {
-    this.level = options.level ?? Logger.globalLevel;
+    this.level = options.level;
     this.module = options.module;
   }
 
@@ -50,7 +51,7 @@ class Logger {
   }
 
   private shouldLog(level: LogLevel): boolean {
-    return level >= this.level;
+    return level >= (this.level ?? Logger.globalLevel);
   }
 
   debug(message: string, ...args: unknown[]) {
@@ -82,22 +83,6 @@ class Logger {
   }
 }
 
-// Initialize logger with environment-based log level
-const logLevel = Deno.env.get("LOG_LEVEL");
-if (logLevel) {
-  const levelMap: Record<string, LogLevel> = {
-    DEBUG: LogLevel.DEBUG,
-    INFO: LogLevel.INFO,
-    WARN: LogLevel.WARN,
-    ERROR: LogLevel.ERROR,
-  };
-
-  if (levelMap[logLevel.toUpperCase()] !== undefined) {
-    Logger.setGlobalLevel(levelMap[logLevel.toUpperCase()]);
-    console.log("Global log level set to:", logLevel);
-  }
-}
-
 // Create default logger instance
 const logger = Logger.create("App");
 
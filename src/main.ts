@@ -1,127 +1,181 @@
+import { join } from "node:path";
 import DeviceService from "./service/deviceService.ts";
+import EventService from "./service/eventService.ts";
+import MetricsService from "./service/metricsService.ts";
 import service from "./service/service.ts";
-import MqttService from "./service/mqttService.ts";
-import AedesService from "./service/aedesService.ts";
-import { Logger } from "./logger.ts";
+import AedesService, { AedesServiceOptions } from "./service/aedesService.ts";
+import AvailabilityService from "./service/availabilityService.ts";
+import AutomationService from "./service/automationService.ts";
+import AccountService from "./service/accountService.ts";
+import ApiService from "./service/apiService.ts";
+import CacheService from "./service/cacheService.ts";
+import CommandService from "./service/commandService.ts";
+import OverrideService from "./service/overrideService.ts";
+import ScannerService from "./service/scannerService.ts";
+import StateStoreService from "./service/stateStoreService.ts";
+import GenericIntegration from "./integration/genericIntegration.ts";
+import HomebridgeIntegration from "./integration/homebridgeIntegration.ts";
+import HomeAssistantIntegration from "./integration/homeAssistantIntegration.ts";
+import { AccountConfig, Config, ConfigError, loadConfig } from "./config.ts";
+import { Logger, LogLevel } from "./logger.ts";
 
 const logger = Logger.create("Main");
 
+function argValue(name: string): string | undefined {
+  const index = Deno.args.indexOf(name);
+  return index >= 0 ? Deno.args[index + 1] : undefined;
+}
+
 if (import.meta.main) {
-  const baseUrl = Deno.env.get("BASE_URL");
-  const username = Deno.env.get("USERNAME");
-  const password = Deno.env.get("PASSWORD");
-  const appId = Deno.env.get("APP_ID");
-
-  if (!baseUrl || !username || !password || !appId) {
-    logger.error(
-      "Missing environment variables: BASE_URL, USERNAME, PASSWORD, APP_ID"
-    );
-    Deno.exit(1);
-  }
+  const configPath =
+    argValue("--config") ?? Deno.env.get("CONFIG_FILE") ?? "./config.json";
 
-  logger.info("Starting application...");
-  logger.debug("Configuration:", { baseUrl, username, appId });
-
-  // Login request
-  const loginUrl = `https://${baseUrl}/api/method/login`;
-  const loginBody = {
-    usr: username,
-    pwd: password,
-  };
-
-  logger.info("Attempting login...");
-  const loginResp = await fetch(loginUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(loginBody),
-  });
+  let config: Config;
+  try {
+    config = await loadConfig(configPath);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
 
-  if (!loginResp.ok) {
-    logger.error("Login failed", await loginResp.text());
+    logger.error(`Invalid configuration in ${configPath}:`);
+    for (const message of error.errors) logger.error(`  ${message}`);
     Deno.exit(1);
   }
-
-  logger.info("Login successful");
-
-  // Get session cookie
-  const setCookie = loginResp.headers.get("set-cookie");
-  if (!setCookie) {
-    logger.error("No session cookie received");
+  Logger.setGlobalLevel(LogLevel[config.log.level]);
+
+  try {
+    service.overrideService = config.overrides
+      ? new OverrideService(config.overrides)
+      : await OverrideService.load(
+          config.overridesFile || join(config.dataDir, "overrides.json")
+        );
+  } catch (error) {
+    logger.error("Failed to load device overrides:", String(error));
     Deno.exit(1);
   }
-  // Only keep the session part (usually sid or similar)
-  const cookie = setCookie.split(",")[0].split(";")[0];
-  logger.debug("Session cookie obtained");
-
-  // Get app setting
-  logger.info("Fetching app settings...");
-  const appSettingUrl = `https://${baseUrl}/api/method/appv6.getAppSetting?appId=${appId}`;
-  const appSettingResp = await fetch(appSettingUrl, {
-    method: "GET",
-    headers: {
-      Cookie: cookie,
-      "Content-Type": "application/json",
-    },
-  });
 
-  if (!appSettingResp.ok) {
-    logger.error("getAppSetting failed", await appSettingResp.text());
-    Deno.exit(1);
+  if (Deno.args.includes("--check-config")) {
+    logger.info(`Configuration in ${configPath} is valid`);
+    Deno.exit(0);
   }
 
-  const appSetting = await appSettingResp.json();
-  const mqttServer = appSetting.config.mqtt_server;
-  const mqttPort = appSetting.config.mqtt_port;
-  const mqttKeepalive = appSetting.config.mqtt_keepalive;
-  const mqttUsername = appSetting.config.mqtt_username;
-  const mqttPassword = appSetting.config.mqtt_password;
-
-  logger.info("Initializing MQTT service...");
-  logger.debug("MQTT config:", { mqttServer, mqttPort, mqttKeepalive });
-  service.mqttService = new MqttService(mqttServer, mqttPort, {
-    keepalive: mqttKeepalive,
-    username: mqttUsername,
-    password: mqttPassword,
-  });
-
-  // Get device profile
-  logger.info("Fetching device profile...");
-  const afterLoginUrl = `https://${baseUrl}/api/method/appv6.afterLogin`;
-  const afterLoginResp = await fetch(afterLoginUrl, {
-    method: "POST",
-    headers: {
-      Cookie: cookie,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      deviceId: "",
-      appId: appId,
-      user_setting_name: `${appId}-${username}`,
-    }),
-  });
+  logger.info("Starting application...");
 
-  if (!afterLoginResp.ok) {
-    logger.error("afterLogin failed", await afterLoginResp.text());
-    Deno.exit(1);
+  service.cacheService = new CacheService(config.dataDir);
+  // Only the HTTP API serves the events and metrics
+  if (config.api.enabled) {
+    service.eventService = new EventService();
+    service.metricsService = new MetricsService();
+  }
+  service.commandService = new CommandService(config.commands);
+  service.deviceService = new DeviceService();
+  service.deviceService.confirmTimeout = config.state.confirmTimeout * 1000;
+  service.deviceService.curtainControl = config.experimental.curtainControl;
+
+  // A single account keeps its device ids unprefixed
+  const accounts: AccountConfig[] = config.accounts.length
+    ? config.accounts
+    : [{ id: "", ...config.cloud }];
+  for (const { id, name, baseUrl, username, password, appId } of accounts) {
+    logger.debug("Account:", { id, baseUrl, username, appId });
+
+    const accountService = new AccountService({
+      id,
+      name,
+      baseUrl,
+      username,
+      password,
+      appId,
+      requestTimeout: config.cloud.requestTimeout * 1000,
+    });
+    service.accountServices.set(id, accountService);
+
+    accountService.applyProfile(
+      await accountService.start(config.cloud.startupAttempts)
+    );
   }
-
-  const resp = await afterLoginResp.json();
-  service.deviceService = DeviceService.fromAfterLoginResp(resp);
 
   const deviceCount = Object.keys(service.deviceService.devices).length;
   logger.info(
-    `Application initialized successfully with ${deviceCount} devices`
+    `Application initialized successfully with ${deviceCount} devices from ${accounts.length} accounts`
+  );
+
+  const { users, tls, websocket } = config.broker;
+  let tlsOptions: AedesServiceOptions["tls"];
+  if (tls.enabled)
+    try {
+      tlsOptions = {
+        port: tls.port,
+        cert: await Deno.readTextFile(tls.cert),
+        key: await Deno.readTextFile(tls.key),
+      };
+    } catch (error) {
+      logger.error("Failed to read the broker TLS certificate:", String(error));
+      Deno.exit(1);
+    }
+
+  service.aedesService = new AedesService(
+    config.broker.port,
+    config.broker.host || undefined,
+    {
+      users,
+      tls: tlsOptions,
+      websocket: websocket.enabled ? { port: websocket.port } : undefined,
+    }
   );
 
-  const aedesPort = Number(Deno.env.get("AEDES_PORT") || 1883);
-  const homebridgeMqttTopicPrefix =
-    Deno.env.get("HOMEBRIDGE_MQTT_TOPIC_PREFIX") || "homebridge";
-  service.aedesService = new AedesService(aedesPort, {
-    homebridgeMqtt: {
-      topicPrefix: homebridgeMqttTopicPrefix,
-    },
+  const { homebridge, homeassistant, generic } = config.integrations;
+  if (homebridge.enabled)
+    service.aedesService.addIntegration(
+      new HomebridgeIntegration(service.aedesService, homebridge)
+    );
+  if (homeassistant.enabled)
+    service.aedesService.addIntegration(
+      new HomeAssistantIntegration(service.aedesService, homeassistant)
+    );
+  if (generic.enabled)
+    service.aedesService.addIntegration(
+      new GenericIntegration(service.aedesService, generic)
+    );
+
+  // Restore the last known states before Homebridge subscribes
+  service.stateStoreService = new StateStoreService({
+    maxAge: config.state.maxAge * 1000,
   });
+  await service.stateStoreService.load();
+
+  service.scannerService = new ScannerService({
+    dedupWindow: config.ble.dedupWindow,
+    timeout: config.ble.scannerTimeout * 1000,
+  });
+  service.scannerService.start();
+  service.availabilityService = new AvailabilityService({
+    timeout: config.availability.timeout * 1000,
+    failureThreshold: config.availability.failureThreshold,
+    failureExpiry: config.availability.failureExpiry * 1000,
+  });
+  service.availabilityService.start();
   service.aedesService.start();
+
+  if (config.api.enabled) {
+    service.apiService = new ApiService({
+      port: config.api.port,
+      host: config.api.host || undefined,
+      token: config.api.token,
+    });
+    service.apiService.start();
+  }
+
+  for (const accountService of service.accountServices.values())
+    accountService.startSync(config.cloud.profileSyncInterval * 1000);
+
+  service.automationService = new AutomationService(config.automations);
+  service.automationService.start();
+
+  // Write the latest states before the container stops
+  for (const signal of ["SIGINT", "SIGTERM"] as const)
+    Deno.addSignalListener(signal, async () => {
+      logger.info(`Received ${signal}, saving device states...`);
+      await service.stateStoreService?.stop();
+      Deno.exit(0);
+    });
 }
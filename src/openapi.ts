@@ -0,0 +1,333 @@
+import { deviceTypeNames } from "./service/deviceService.ts";
+
+const errorResponse = {
+  description: "Error",
+  content: {
+    "application/json": {
+      schema: { $ref: "#/components/schemas/Error" },
+    },
+  },
+};
+
+const deviceIdParameter = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "Device id, URL encoded when it contains an account prefix",
+  schema: { type: "string" },
+};
+
+/** OpenAPI 3 description of the HTTP API served by `ApiService`. */
+const openApiSpec = {
+  openapi: "3.0.3",
+  info: {
+    title: "Yoswit Homebridge MQTT API",
+    version: "1.0.0",
+    description:
+      "Lists the Yoswit devices of the bridge with their current state and controls them.",
+  },
+  security: [{ bearerAuth: [] }],
+  paths: {
+    "/status": {
+      get: {
+        summary:
+          "Cloud MQTT connectivity, local broker clients and BLE scanners",
+        responses: {
+          "200": {
+            description: "Bridge status",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Status" },
+              },
+            },
+          },
+          "401": errorResponse,
+        },
+      },
+    },
+    "/events": {
+      get: {
+        summary:
+          "Live feed of Homebridge commands, cloud publishes, BLE packets and states",
+        description:
+          "Server-sent events named after the event type, starting with the recent ones.",
+        responses: {
+          "200": {
+            description: "Event stream",
+            content: {
+              "text/event-stream": {
+                schema: { $ref: "#/components/schemas/Event" },
+              },
+            },
+          },
+          "401": errorResponse,
+        },
+      },
+    },
+    "/metrics": {
+      get: {
+        summary: "Prometheus metrics",
+        responses: {
+          "200": {
+            description: "Metrics in the Prometheus text format",
+            content: { "text/plain": { schema: { type: "string" } } },
+          },
+          "401": errorResponse,
+        },
+      },
+    },
+    "/automations": {
+      get: {
+        summary: "Configured automations with their next and last runs",
+        responses: {
+          "200": {
+            description: "Automations",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "array",
+                  items: { $ref: "#/components/schemas/Automation" },
+                },
+              },
+            },
+          },
+          "401": errorResponse,
+        },
+      },
+    },
+    "/devices": {
+      get: {
+        summary: "Every device with its current state, keyed by id",
+        responses: {
+          "200": {
+            description: "Devices",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  additionalProperties: {
+                    $ref: "#/components/schemas/Device",
+                  },
+                },
+              },
+            },
+          },
+          "401": errorResponse,
+        },
+      },
+    },
+    "/devices/{id}": {
+      parameters: [deviceIdParameter],
+      get: {
+        summary: "A device with its current state",
+        responses: {
+          "200": {
+            description: "Device",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Device" },
+              },
+            },
+          },
+          "401": errorResponse,
+          "404": errorResponse,
+        },
+      },
+      post: {
+        summary: "Switch, dim or move a device",
+        description:
+          "Switches and fans take `on`, dimmers `on` and `brightness`, curtains `position` or `on`. The returned state stays pending until the device confirms it.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/SetDevice" },
+            },
+          },
+        },
+        responses: {
+          "202": {
+            description: "Command queued",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Device" },
+              },
+            },
+          },
+          "400": errorResponse,
+          "401": errorResponse,
+          "404": errorResponse,
+        },
+      },
+    },
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer" },
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } },
+      },
+      State: {
+        type: "object",
+        required: ["on", "pending", "updatedAt", "source"],
+        properties: {
+          on: { type: "boolean" },
+          brightness: { type: "number", minimum: 0, maximum: 100 },
+          position: { type: "number", minimum: 0, maximum: 100 },
+          pending: {
+            type: "boolean",
+            description: "Whether a command awaits confirmation",
+          },
+          stale: {
+            type: "boolean",
+            description:
+              "Restored after a restart and older than the configured age",
+          },
+          updatedAt: {
+            type: "integer",
+            description: "Milliseconds since the epoch",
+          },
+          onSince: {
+            type: "integer",
+            description:
+              "When the device turned on, in milliseconds since the epoch",
+          },
+          source: { type: "string", enum: ["ble", "command"] },
+        },
+      },
+      Device: {
+        type: "object",
+        required: ["id", "type", "macAddress", "gatewayId", "state", "online"],
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          room: { type: "string" },
+          home: {
+            type: "string",
+            description: "Account name when several accounts are configured",
+          },
+          type: { type: "string", enum: Object.values(deviceTypeNames) },
+          macAddress: { type: "string" },
+          gatewayId: { type: "string" },
+          state: {
+            allOf: [{ $ref: "#/components/schemas/State" }],
+            nullable: true,
+          },
+          online: {
+            type: "boolean",
+            description:
+              "False once the device was not seen for the availability timeout or a command failed",
+          },
+          bleUpdatedAt: {
+            type: "integer",
+            nullable: true,
+            description: "When a BLE advertisement last reported the state",
+          },
+        },
+      },
+      Event: {
+        type: "object",
+        required: ["type", "time", "summary"],
+        properties: {
+          type: {
+            type: "string",
+            enum: ["homebridge", "cloud", "ble", "state"],
+          },
+          time: { type: "integer" },
+          summary: { type: "string" },
+          data: {},
+        },
+      },
+      Automation: {
+        type: "object",
+        required: ["id", "device", "trigger", "nextRunAt", "lastRunAt"],
+        properties: {
+          id: { type: "string" },
+          device: { type: "string" },
+          trigger: { type: "string", enum: ["autoOff", "at", "sun"] },
+          nextRunAt: {
+            type: "integer",
+            nullable: true,
+            description:
+              "Milliseconds since the epoch, auto-off rules only have one while the device is on",
+          },
+          lastRunAt: { type: "integer", nullable: true },
+        },
+      },
+      SetDevice: {
+        type: "object",
+        properties: {
+          on: { type: "boolean" },
+          brightness: { type: "number", minimum: 0, maximum: 100 },
+          position: { type: "number", minimum: 0, maximum: 100 },
+        },
+      },
+      Status: {
+        type: "object",
+        required: ["accounts", "broker", "scanners", "devices", "scenes"],
+        properties: {
+          accounts: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["id", "connected"],
+              properties: {
+                id: { type: "string" },
+                name: { type: "string" },
+                connected: {
+                  type: "boolean",
+                  description: "Whether the cloud MQTT connection is up",
+                },
+              },
+            },
+          },
+          broker: {
+            type: "object",
+            required: ["running", "clients"],
+            properties: {
+              running: { type: "boolean" },
+              clients: { type: "integer" },
+            },
+          },
+          scanners: {
+            type: "array",
+            items: {
+              type: "object",
+              required: ["id", "lastSeenAt", "packets", "duplicates", "alive"],
+              properties: {
+                id: { type: "string" },
+                lastSeenAt: {
+                  type: "integer",
+                  description:
+                    "Milliseconds since the epoch of the last report",
+                },
+                packets: { type: "integer" },
+                duplicates: {
+                  type: "integer",
+                  description: "Advertisements another scanner reported first",
+                },
+                rssi: {
+                  type: "integer",
+                  description: "Signal strength of the last report in dBm",
+                },
+                alive: {
+                  type: "boolean",
+                  description:
+                    "False once the scanner was silent for the scanner timeout",
+                },
+              },
+            },
+          },
+          devices: { type: "integer" },
+          scenes: { type: "integer" },
+        },
+      },
+    },
+  },
+};
+
+export { openApiSpec };
@@ -0,0 +1,165 @@
+import { Logger } from "../logger.ts";
+import service from "./service.ts";
+import CloudService, {
+  AppSetting,
+  CloudServiceOptions,
+} from "./cloudService.ts";
+import DeviceService from "./deviceService.ts";
+import MqttService from "./mqttService.ts";
+
+const logger = Logger.create("AccountService");
+
+interface AccountServiceOptions extends CloudServiceOptions {
+  id: string; // prefixes device ids, empty for a single account
+  name?: string; // shown next to device names
+}
+
+/**
+ * One Yoswit account with its own cloud session and MQTT connection. The
+ * devices of every account end up in the shared `DeviceService`.
+ */
+class AccountService {
+  id: string;
+  name?: string;
+  cloudService: CloudService;
+  mqttService: MqttService | null = null;
+  private appSetting: AppSetting | null = null;
+  private isOffline = false;
+
+  constructor(options: AccountServiceOptions) {
+    const { id, name, ...cloudOptions } = options;
+    this.id = id;
+    this.name = name;
+    this.cloudService = new CloudService({ cachePrefix: id, ...cloudOptions });
+  }
+
+  private get label(): string {
+    return this.id ? `account ${this.id}` : "account";
+  }
+
+  private connectMqtt(appSetting: AppSetting) {
+    const { mqtt_server, mqtt_port, mqtt_keepalive } = appSetting.config;
+
+    logger.info(`Initializing MQTT service for ${this.label}...`);
+    logger.debug("MQTT config:", { mqtt_server, mqtt_port, mqtt_keepalive });
+
+    this.appSetting = appSetting;
+    this.mqttService = new MqttService(mqtt_server, mqtt_port, {
+      keepalive: mqtt_keepalive,
+      username: appSetting.config.mqtt_username,
+      password: appSetting.config.mqtt_password,
+    });
+  }
+
+  /**
+   * Connects to the gateway broker and returns the device profile, falling
+   * back to the cached responses when the cloud is unreachable.
+   */
+  // deno-lint-ignore no-explicit-any
+  async start(startupAttempts: number): Promise<any> {
+    // Give the cloud a few attempts before falling back to the cached responses
+    let appSetting = await this.cloudService
+      .getAppSetting(startupAttempts)
+      .catch(() => null);
+    let profile = appSetting
+      ? await this.cloudService.afterLogin(startupAttempts).catch(() => null)
+      : null;
+    this.isOffline = !appSetting || !profile;
+
+    if (!appSetting) {
+      appSetting = await this.cloudService.readCache<AppSetting>("appSetting");
+      if (appSetting)
+        logger.warn(
+          `Cloud unreachable, using cached app settings for ${this.label}`
+        );
+      else appSetting = await this.cloudService.getAppSetting();
+    }
+
+    this.connectMqtt(appSetting);
+
+    if (!profile) {
+      profile = await this.cloudService.readCache("afterLogin");
+      if (profile)
+        logger.warn(
+          `Cloud unreachable, using cached device profile for ${this.label}`
+        );
+      else profile = await this.cloudService.afterLogin();
+    }
+
+    return profile;
+  }
+
+  private countReload(outcome: "success" | "failure") {
+    service.metricsService?.increment("yoswit_profile_reloads_total", {
+      account: this.id,
+      outcome,
+    });
+  }
+
+  private async refresh() {
+    const freshAppSetting = await this.cloudService.getAppSetting();
+    if (
+      JSON.stringify(freshAppSetting.config) !==
+      JSON.stringify(this.appSetting?.config)
+    ) {
+      logger.info(
+        `App settings of ${this.label} changed, reconnecting MQTT service...`
+      );
+      this.mqttService?.close();
+      this.connectMqtt(freshAppSetting);
+    }
+
+    this.applyProfile(await this.cloudService.afterLogin());
+    logger.info(`Refreshed cached data of ${this.label} from the cloud`);
+  }
+
+  // deno-lint-ignore no-explicit-any
+  applyProfile(resp: any) {
+    const synced = DeviceService.fromAfterLoginResp(resp, undefined, {
+      id: this.id,
+      name: this.name,
+    });
+
+    const changes = service.deviceService!.applyDevices(
+      synced.devices,
+      this.id
+    );
+    service.aedesService?.handleDevicesChanged(changes);
+
+    const sceneChanges = service.deviceService!.applyScenes(
+      synced.scenes,
+      this.id
+    );
+    service.aedesService?.handleScenesChanged(sceneChanges);
+  }
+
+  startSync(profileSyncInterval: number) {
+    // Refresh the cached responses as soon as the cloud is reachable again
+    if (this.isOffline)
+      this.refresh().then(
+        () => this.countReload("success"),
+        (error) => {
+          logger.error(`Failed to refresh ${this.label}:`, String(error));
+          this.countReload("failure");
+        }
+      );
+
+    // Keep the device list in sync with changes made in the Yoswit app
+    this.cloudService.startProfileSync(
+      profileSyncInterval,
+      (resp) => {
+        this.applyProfile(resp);
+        this.countReload("success");
+      },
+      () => this.countReload("failure")
+    );
+  }
+
+  async stop() {
+    this.cloudService.stopProfileSync();
+    await this.mqttService?.close();
+  }
+}
+
+export default AccountService;
+export type { AccountServiceOptions };
@@ -1,252 +1,236 @@
 import Aedes from "aedes";
-import { createServer } from "node:net";
+import { createServer as createHttpServer } from "node:http";
+import { createServer, Server } from "node:net";
+import { createServer as createTlsServer } from "node:tls";
+import { createWebSocketStream, WebSocketServer } from "ws";
 import { Logger } from "../logger.ts";
+import { timingSafeEqual } from "../utils.ts";
+import {
+  BleAdvertisement,
+  BleDecodeError,
+  BleSighting,
+  decodeBleData,
+  parseBleFrame,
+  parseScannerPayload,
+} from "../bleDecoder.ts";
 import service from "./service.ts";
-import { DeviceType, Device } from "./deviceService.ts";
+import {
+  Device,
+  DeviceChanges,
+  DeviceState,
+  SceneChanges,
+} from "./deviceService.ts";
+import type Integration from "../integration/integration.ts";
 
 const logger = Logger.create("AedesService");
 
+// Legacy single scanner topic, payloads are the MAC address followed by data
+const BLE_DEVICES_TOPIC = "yoswit/ble/devices";
+// Per scanner topics, `+` is the scanner id
+const BLE_SCANNER_TOPIC = "yoswit/ble/scanners/+";
+
+interface BrokerUser {
+  username: string;
+  password: string;
+  // Topic filters the user may publish or subscribe to, every topic when unset
+  publish?: string[];
+  subscribe?: string[];
+}
+
+interface BleCacheEntry {
+  data: string;
+  updatedAt: number;
+  scanner?: string;
+  rssi?: number;
+}
+
 interface AedesServiceOptions {
-  homebridgeMqtt: {
-    topicPrefix: string;
-  };
+  users?: BrokerUser[]; // anonymous clients are allowed when empty
+  tls?: { port: number; cert: string; key: string }; // PEM encoded
+  websocket?: { port: number };
 }
 
-interface HomebridgeSetPayload {
-  name: string;
-  value: boolean;
-  characteristic: string;
+/**
+ * Whether `filter` covers `topic`, which may itself be a filter so that
+ * subscriptions with wildcards are only allowed under a wider filter.
+ */
+function topicMatches(filter: string, topic: string): boolean {
+  const filterLevels = filter.split("/");
+  const topicLevels = topic.split("/");
+
+  for (let i = 0; i < filterLevels.length; i++) {
+    if (filterLevels[i] === "#") return true;
+    if (i >= topicLevels.length || topicLevels[i] === "#") return false;
+    if (filterLevels[i] === "+") continue;
+    if (filterLevels[i] !== topicLevels[i]) return false;
+  }
+
+  return filterLevels.length === topicLevels.length;
 }
 
 class AedesService {
   port: number;
+  host?: string;
   options: AedesServiceOptions;
   aedes: Aedes.default;
-  private bleDeviceCache: Map<string, string> = new Map();
-
-  constructor(port: number, options: AedesServiceOptions) {
+  integrations: Integration[] = [];
+  private server: Server | null = null;
+  // TLS and WebSocket listeners next to the plain TCP server
+  private listeners: Server[] = [];
+  private webSocketServer: WebSocketServer | null = null;
+  private clientUsers: WeakMap<Aedes.Client, BrokerUser> = new WeakMap();
+  private bleDeviceCache: Map<string, BleCacheEntry> = new Map();
+
+  constructor(port: number, host?: string, options: AedesServiceOptions = {}) {
     this.port = port;
+    this.host = host;
     this.options = options;
-    this.aedes = Aedes.createBroker();
+    this.aedes = Aedes.createBroker({
+      authenticate: (client, username, password, done) =>
+        done(...this.authenticate(client, username, password?.toString())),
+      authorizePublish: (client, packet, callback) =>
+        callback(this.authorizePublish(client, packet.topic)),
+      authorizeSubscribe: (client, subscription, callback) =>
+        callback(
+          null,
+          this.isAllowed(client, "subscribe", subscription.topic)
+            ? subscription
+            : null
+        ),
+    });
   }
 
-  // -- Homebridge Event Handling --
-
-  private async handleHomebridgeSetMessage(payload: HomebridgeSetPayload) {
-    const device = service.deviceService?.getByName(payload.name);
-    if (!device) {
-      logger.error(`Device with name ${payload.name} not found`);
-      return;
-    }
-
-    switch (payload.characteristic) {
-      case "On":
-        if (
-          device.type !== DeviceType.SWITCH &&
-          device.type !== DeviceType.DIMMING
-        ) {
-          logger.error(
-            `Device ${payload.name} is not a switch or dimming device`
-          );
-          return;
-        }
-
-        try {
-          if (device.type === DeviceType.SWITCH) {
-            logger.info(
-              `Setting device ${payload.name} to value: ${payload.value}`
-            );
-
-            await service.deviceService?.switchDevice(
-              payload.name,
-              payload.value
-            );
-          } else {
-            const brightness = payload.value ? 100 : 0;
-            logger.info(
-              `Setting device ${payload.name} to brightness: ${brightness}`
-            );
-
-            await service.deviceService?.dimmingDevice(
-              payload.name,
-              brightness
-            );
-          }
-        } catch (error) {
-          logger.error(`Failed to switch device ${payload.name}:`, error);
-        }
-        break;
-      case "Brightness":
-        if (device.type !== DeviceType.DIMMING) {
-          logger.error(`Device ${payload.name} is not a dimming device`);
-          return;
-        }
-
-        logger.info(
-          `Setting dimming device ${payload.name} to brightness: ${payload.value}`
-        );
+  get isRunning(): boolean {
+    return (
+      (this.server?.listening ?? false) &&
+      this.listeners.every((listener) => listener.listening)
+    );
+  }
 
-        try {
-          await service.deviceService?.dimmingDevice(
-            payload.name,
-            Number(payload.value)
-          );
-        } catch (error) {
-          logger.error(`Failed to dim device ${payload.name}:`, error);
-        }
+  addIntegration(integration: Integration) {
+    logger.info(`Enabling ${integration.name} integration`);
+    this.integrations.push(integration);
+  }
 
-        break;
-      default:
-        logger.warn("Unknown characteristic:", payload.characteristic);
-        break;
+  // -- Authentication --
+
+  private authenticate(
+    client: Aedes.Client,
+    username?: string,
+    password?: string
+  ): [Aedes.AuthenticateError | null, boolean] {
+    const users = this.options.users ?? [];
+    if (!users.length) return [null, true];
+
+    const user = users.find((user) => user.username === username);
+    if (!user || !timingSafeEqual(password ?? "", user.password)) {
+      logger.warn(`Rejected client ${client.id} with username ${username}`);
+
+      const error = new Error(
+        "Bad username or password"
+      ) as Aedes.AuthenticateError;
+      error.returnCode = 4;
+      return [error, false];
     }
-  }
 
-  private addDevice(
-    device: Device,
-    service: string,
-    additionalProperties?: Record<string, string>
-  ) {
-    let service_name = device.name || "Unnamed Device";
-    if (device.roomName) service_name = `${service_name} (${device.roomName})`;
-
-    const payload = {
-      name: device.id,
-      service_name,
-      service,
-      ...additionalProperties,
-    };
-
-    const topic = `${this.options.homebridgeMqtt.topicPrefix}/to/add`;
-
-    this.aedes.publish(
-      {
-        topic,
-        payload: JSON.stringify(payload),
-        qos: 1,
-        retain: false,
-        dup: false,
-        cmd: "publish",
-      },
-      (err) => {
-        if (err) {
-          logger.error(
-            `Failed to publish add device message for device ${device.id}:`,
-            err
-          );
-        } else {
-          logger.info(
-            `Published add device message for device ${device.id} to topic ${topic}`
-          );
-        }
-      }
-    );
+    this.clientUsers.set(client, user);
+    return [null, true];
   }
 
-  private publishDeviceAddition(device: Device) {
-    switch (device.type) {
-      case DeviceType.SWITCH:
-        this.addDevice(device, "Lightbulb");
-        break;
-      case DeviceType.DIMMING:
-        this.addDevice(device, "Lightbulb", { Brightness: "default" });
-        break;
-      default:
-        logger.warn("Unknown device type for device", device);
-        break;
-    }
+  private isAllowed(
+    client: Aedes.Client | null,
+    action: "publish" | "subscribe",
+    topic: string
+  ): boolean {
+    // Messages of the bridge itself have no client
+    if (!client) return true;
+
+    const filters = this.clientUsers.get(client)?.[action];
+    return !filters || filters.some((filter) => topicMatches(filter, topic));
   }
 
-  // -- BLE Event Handling --
+  private authorizePublish(
+    client: Aedes.Client | null,
+    topic: string
+  ): Error | null {
+    if (topic.startsWith("$SYS/")) return new Error("$SYS topics are reserved");
 
-  private setCharacteristic(
-    device: Device,
-    characteristic: string,
-    value: boolean | number
-  ) {
-    const topic = `${this.options.homebridgeMqtt.topicPrefix}/to/set`;
-    let service_name = device.name || "Unnamed Device";
-    if (device.roomName) service_name = `${service_name} (${device.roomName})`;
-
-    const payload = JSON.stringify({
-      name: device.id,
-      service_name,
-      characteristic,
-      value,
-    });
+    if (this.isAllowed(client, "publish", topic)) return null;
 
-    this.aedes.publish(
-      {
-        topic,
-        payload,
-        qos: 1,
-        retain: false,
-        dup: false,
-        cmd: "publish",
-      },
-      (err) => {
-        if (err) {
-          logger.error(
-            `Failed to publish ${characteristic} update for device ${device.id}:`,
-            err
-          );
-        } else {
-          logger.info(
-            `Published ${characteristic} update for device ${device.id} to topic ${topic}`
-          );
-          logger.debug(`Payload: ${payload}`);
-        }
-      }
-    );
+    logger.warn(`Client ${client?.id} may not publish to ${topic}`);
+    return new Error(`Not allowed to publish to ${topic}`);
   }
 
-  private handleSwitchBLEData(device: Device, data: string) {
-    logger.debug(`Handling Switch BLE data for device ${device.id}: ${data}`);
+  // -- Device Event Handling --
 
-    const status = data.slice(-1);
-    const statusInt = parseInt(status, 16);
-    const lightStates = statusInt
-      .toString(2)
-      .padStart(4, "0")
-      .slice(0, -1)
-      .split("")
-      .reverse();
+  handleDevicesChanged(changes: DeviceChanges) {
+    for (const integration of this.integrations)
+      integration.handleDevicesChanged(changes);
 
-    if (device.type !== DeviceType.SWITCH) {
-      logger.error(`Device ${device.id} is not a switch device`);
-      return;
+    // New devices may share a MAC address with already advertised ones
+    const macAddresses = new Set(
+      changes.added.map((device) => device.macAddress)
+    );
+    for (const macAddress of macAddresses) {
+      const entry = this.bleDeviceCache.get(macAddress);
+      if (entry) this.handleBleDeviceData(macAddress, entry.data);
     }
+  }
 
-    const isOn = lightStates[device.index - 1];
-    if (isOn === undefined) {
-      logger.warn(
-        `No status found for device index ${device.index} (MAC: ${device.macAddress})`
-      );
-      return;
-    }
+  handleScenesChanged(changes: SceneChanges) {
+    for (const integration of this.integrations)
+      integration.handleScenesChanged(changes);
+  }
 
-    this.setCharacteristic(device, "On", isOn === "1");
+  handleStateChange(device: Device, state: DeviceState) {
+    for (const integration of this.integrations)
+      integration.handleStateChange(device, state);
   }
 
-  private handleDimmingBLEData(device: Device, data: string) {
-    logger.debug(`Handling Dimming BLE data for device ${device.id}: ${data}`);
+  handleAvailabilityChange(device: Device, online: boolean) {
+    for (const integration of this.integrations)
+      integration.handleAvailabilityChange(device, online);
+  }
 
-    // BLE brightness is in 5th-6th hex chars (index 4 and 5)
-    if (data.length < 6) {
-      logger.warn(`BLE data too short for dimming: ${data}`);
-      return;
-    }
-    const brightnessHex = data.substring(4, 6);
-    let brightness = parseInt(brightnessHex, 16);
-    if (isNaN(brightness)) {
-      logger.warn(`Invalid brightness hex in BLE data: ${brightnessHex}`);
+  // -- BLE Event Handling --
+
+  private handleBleAdvertisement(device: Device, data: string) {
+    let advertisement: BleAdvertisement;
+    try {
+      advertisement = decodeBleData(device.type, data);
+    } catch (error) {
+      if (!(error instanceof BleDecodeError)) throw error;
+      logger.warn(`Ignoring BLE data of device ${device.id}: ${error.reason}`);
       return;
     }
-    // Scale to 0-100
-    brightness = Math.round((brightness / 255) * 100);
+    logger.debug(`Decoded BLE data for device ${device.id}:`, advertisement);
+
+    switch (advertisement.model) {
+      case "switch": {
+        const isOn = advertisement.gangs[device.index - 1];
+        if (isOn === undefined) {
+          logger.warn(
+            `No status found for device index ${device.index} (MAC: ${device.macAddress})`
+          );
+          return;
+        }
 
-    this.setCharacteristic(device, "Brightness", brightness);
-    this.setCharacteristic(device, "On", brightness > 0);
+        service.deviceService?.reportState(device.id, { on: isOn });
+        break;
+      }
+      case "dimming":
+        service.deviceService?.reportState(device.id, {
+          on: advertisement.brightness > 0,
+          brightness: advertisement.brightness,
+        });
+        break;
+      case "curtain":
+        service.deviceService?.reportState(device.id, {
+          on: advertisement.position > 0,
+          position: advertisement.position,
+        });
+        break;
+    }
   }
 
   private handleBleDeviceData(macAddress: string, data: string) {
@@ -261,30 +245,94 @@ class AedesService {
       return;
     }
 
-    for (const device of devices) {
-      switch (device.type) {
-        case DeviceType.SWITCH:
-          this.handleSwitchBLEData(device, data);
-          break;
-        case DeviceType.DIMMING:
-          this.handleDimmingBLEData(device, data);
-          break;
-        default:
-          logger.warn("Unknown device type for device", device);
-          break;
+    for (const device of devices) this.handleBleAdvertisement(device, data);
+  }
+
+  get bleCache(): Record<string, BleCacheEntry> {
+    return Object.fromEntries(this.bleDeviceCache);
+  }
+
+  /**
+   * Restores persisted advertisements, dropping those older than `maxAge` and
+   * those the decoder rejects.
+   */
+  restoreBleCache(entries: Record<string, BleCacheEntry>, maxAge: number) {
+    const now = Date.now();
+    for (const [macAddress, entry] of Object.entries(entries)) {
+      if (maxAge && now - entry.updatedAt > maxAge) continue;
+
+      try {
+        const frame = parseBleFrame(macAddress + entry.data);
+        this.bleDeviceCache.set(frame.macAddress, {
+          ...entry,
+          data: frame.data,
+        });
+      } catch (error) {
+        if (!(error instanceof BleDecodeError)) throw error;
+        logger.debug(
+          `Dropping cached BLE data of ${macAddress}: ${error.reason}`
+        );
       }
     }
   }
 
-  private extractAndCacheBleDeviceMessage(payloadString: string) {
-    // Split payload: first 17 chars are MAC, rest is data
-    const macAddress = payloadString.slice(0, 17);
-    const data = payloadString.slice(17);
+  private parseBleSighting(
+    topic: string,
+    payload: string,
+    client: Aedes.Client | null
+  ): BleSighting {
+    if (topic === BLE_DEVICES_TOPIC)
+      return { ...parseBleFrame(payload), scanner: client?.id ?? "unknown" };
+
+    return parseScannerPayload(topic.split("/").pop()!, payload);
+  }
+
+  private handleBleMessage(
+    topic: string,
+    payload: string,
+    client: Aedes.Client | null
+  ) {
+    let sighting: BleSighting;
+    try {
+      sighting = this.parseBleSighting(topic, payload, client);
+    } catch (error) {
+      if (!(error instanceof BleDecodeError)) throw error;
+      logger.warn(
+        `Ignoring BLE frame "${payload}" on ${topic}: ${error.reason}`
+      );
+      return;
+    }
+    const { macAddress, data, scanner, rssi, timestamp } = sighting;
+
+    if (service.scannerService?.accept(sighting) === false) {
+      logger.debug(
+        `Dropping duplicate BLE data from ${scanner}: ${macAddress}`
+      );
+      return;
+    }
 
     // Cache the data for this MAC address
-    this.bleDeviceCache.set(macAddress, data);
+    this.bleDeviceCache.set(macAddress, {
+      data,
+      updatedAt: Date.now(),
+      scanner,
+      rssi,
+    });
+    service.stateStoreService?.scheduleSave();
 
-    logger.debug(`Cached BLE device data: MAC=${macAddress}, Data=${data}`);
+    logger.debug(
+      `Cached BLE device data: MAC=${macAddress}, Data=${data}, Scanner=${scanner}`
+    );
+    service.metricsService?.increment("yoswit_ble_packets_total", {
+      mac: macAddress,
+    });
+    service.eventService?.emit("ble", `${macAddress} ${data} via ${scanner}`, {
+      macAddress,
+      data,
+      scanner,
+      rssi,
+      timestamp,
+    });
 
     // Handle the data
     this.handleBleDeviceData(macAddress, data);
@@ -296,10 +344,7 @@ class AedesService {
     logger.info(`Client Connected: ${client.id}`);
   }
 
-  private async handlePublish(
-    packet: Aedes.PublishPacket,
-    client: Aedes.Client
-  ) {
+  private handlePublish(packet: Aedes.PublishPacket, client: Aedes.Client) {
     logger.debug(
       `Message from client ${client.id}: Topic=${
         packet.topic
@@ -307,15 +352,20 @@ class AedesService {
     );
 
     if (
-      packet.topic === `${this.options.homebridgeMqtt.topicPrefix}/from/set`
-    ) {
-      const payload = JSON.parse(packet.payload.toString());
-      await this.handleHomebridgeSetMessage(payload);
-    }
-
-    if (packet.topic === "yoswit/ble/devices") {
-      const payloadString = packet.payload.toString();
-      this.extractAndCacheBleDeviceMessage(payloadString);
+      packet.topic === BLE_DEVICES_TOPIC ||
+      topicMatches(BLE_SCANNER_TOPIC, packet.topic)
+    )
+      this.handleBleMessage(packet.topic, packet.payload.toString(), client);
+
+    for (const integration of this.integrations) {
+      try {
+        integration.handlePublish(packet, client);
+      } catch (error) {
+        logger.error(
+          `${integration.name} integration failed to handle message on ${packet.topic}:`,
+          String(error)
+        );
+      }
     }
   }
 
@@ -327,26 +377,15 @@ class AedesService {
       `Client ${client.id} subscribed to topic: ${subscription.topic}`
     );
 
-    if (
-      subscription.topic !== `${this.options.homebridgeMqtt.topicPrefix}/to/#`
-    )
-      return;
-
-    const devices = Object.values(service.deviceService?.devices || {});
-
-    for (const device of devices) this.publishDeviceAddition(device);
-
-    // Replay cached BLE device data for this new subscription
-    logger.info(`Replaying cached BLE device data for client ${client.id}`);
-    for (const [macAddress, data] of this.bleDeviceCache.entries())
-      this.handleBleDeviceData(macAddress, data);
+    for (const integration of this.integrations)
+      integration.handleSubscription(subscription, client);
   }
 
   private setupEventHandlers() {
     this.aedes.on("client", (client) => this.handleClientConnection(client));
 
-    this.aedes.on("publish", async (packet, client) => {
-      if (client) await this.handlePublish(packet, client);
+    this.aedes.on("publish", (packet, client) => {
+      if (client) this.handlePublish(packet, client);
     });
 
     this.aedes.on("subscribe", (subscriptions, client) => {
@@ -358,13 +397,62 @@ class AedesService {
   }
 
   start() {
-    const server = createServer(this.aedes.handle);
-    server.listen(this.port, () =>
+    if (!this.options.users?.length)
+      logger.warn("No broker users configured, allowing anonymous clients");
+
+    this.server = createServer(this.aedes.handle);
+    this.server.listen(this.port, this.host, () =>
       logger.info("Server started and listening on port", this.port)
     );
 
+    const { tls, websocket } = this.options;
+    if (tls) {
+      const tlsServer = createTlsServer(
+        { cert: tls.cert, key: tls.key },
+        this.aedes.handle
+      );
+      tlsServer.listen(tls.port, this.host, () =>
+        logger.info("TLS listener started on port", tls.port)
+      );
+      this.listeners.push(tlsServer);
+    }
+
+    if (websocket) {
+      const httpServer = createHttpServer();
+      const webSocketServer = new WebSocketServer({ server: httpServer });
+      webSocketServer.on("connection", (socket) =>
+        this.aedes.handle(createWebSocketStream(socket))
+      );
+      httpServer.listen(websocket.port, this.host, () =>
+        logger.info("WebSocket listener started on port", websocket.port)
+      );
+      this.webSocketServer = webSocketServer;
+      this.listeners.push(httpServer);
+    }
+
     this.setupEventHandlers();
+
+    for (const integration of this.integrations) integration.start();
+  }
+
+  async stop() {
+    await new Promise<void>((resolve) => this.aedes.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server?.close(() => resolve()));
+    this.server = null;
+    await new Promise<void>((resolve) =>
+      this.webSocketServer
+        ? this.webSocketServer.close(() => resolve())
+        : resolve()
+    );
+    this.webSocketServer = null;
+    for (const listener of this.listeners)
+      await new Promise<void>((resolve) => listener.close(() => resolve()));
+    this.listeners = [];
+
+    logger.info("Server stopped");
   }
 }
 
 export default AedesService;
+export { topicMatches };
+export type { AedesServiceOptions, BleCacheEntry, BrokerUser };
@@ -0,0 +1,330 @@
+import { dashboardHtml } from "../dashboard.ts";
+import { Logger } from "../logger.ts";
+import { openApiSpec } from "../openapi.ts";
+import { timingSafeEqual } from "../utils.ts";
+import service from "./service.ts";
+import {
+  Device,
+  DeviceState,
+  DeviceType,
+  deviceTypeNames,
+  DeviceTypeName,
+} from "./deviceService.ts";
+import type { BridgeEvent } from "./eventService.ts";
+import type { Scanner } from "./scannerService.ts";
+
+const logger = Logger.create("ApiService");
+
+interface ApiServiceOptions {
+  port: number;
+  host?: string; // listens on every interface when unset
+  token: string;
+}
+
+interface ApiDevice {
+  id: string;
+  name?: string;
+  room?: string;
+  home?: string;
+  type: DeviceTypeName;
+  macAddress: string;
+  gatewayId: string;
+  state: DeviceState | null;
+  online: boolean;
+  bleUpdatedAt: number | null;
+}
+
+interface ApiSetPayload {
+  on?: boolean;
+  brightness?: number;
+  position?: number;
+}
+
+interface ApiStatus {
+  accounts: { id: string; name?: string; connected: boolean }[];
+  broker: { running: boolean; clients: number };
+  scanners: Scanner[];
+  devices: number;
+  scenes: number;
+}
+
+class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * Serves the devices, their state and the bridge status over HTTP for
+ * dashboards and scripts that do not speak MQTT.
+ */
+class ApiService {
+  options: ApiServiceOptions;
+  private server: Deno.HttpServer | null = null;
+  // Event streams never end on their own, so they are closed on stop
+  private streams: Set<() => void> = new Set();
+
+  constructor(options: ApiServiceOptions) {
+    this.options = options;
+  }
+
+  start() {
+    this.server = Deno.serve(
+      {
+        port: this.options.port,
+        hostname: this.options.host,
+        onListen: ({ port }) => logger.info("HTTP API listening on port", port),
+      },
+      (request) => this.handle(request)
+    );
+  }
+
+  async stop() {
+    for (const close of this.streams) close();
+    await this.server?.shutdown();
+    this.server = null;
+
+    logger.info("HTTP API stopped");
+  }
+
+  // -- Request Handling --
+
+  async handle(request: Request): Promise<Response> {
+    const { pathname } = new URL(request.url);
+
+    try {
+      // The description is public so that clients can be generated from it
+      if (pathname === "/openapi.json" && request.method === "GET")
+        return json(openApiSpec);
+      // The dashboard asks for the token itself
+      if (pathname === "/" && request.method === "GET")
+        return new Response(dashboardHtml, {
+          headers: { "content-type": "text/html; charset=utf-8" },
+        });
+
+      this.authorize(request);
+
+      if (pathname === "/events" && request.method === "GET")
+        return this.streamEvents();
+      if (pathname === "/metrics" && request.method === "GET")
+        return new Response(service.metricsService?.render() ?? "", {
+          headers: { "content-type": "text/plain; version=0.0.4" },
+        });
+      if (pathname === "/status" && request.method === "GET")
+        return json(this.getStatus());
+      if (pathname === "/automations" && request.method === "GET")
+        return json(service.automationService?.list() ?? []);
+      if (pathname === "/devices" && request.method === "GET")
+        return json(this.listDevices());
+
+      const match = pathname.match(/^\/devices\/([^/]+)$/);
+      if (match) {
+        const id = decodeURIComponent(match[1]);
+        if (request.method === "GET") return json(this.getDevice(id));
+        if (request.method === "POST")
+          return json(this.setDevice(id, await this.readBody(request)), 202);
+
+        throw new ApiError(405, `Method ${request.method} not allowed`);
+      }
+
+      throw new ApiError(404, `No route for ${request.method} ${pathname}`);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        const response = json({ error: error.message }, error.status);
+        if (error.status === 401)
+          response.headers.set("www-authenticate", "Bearer");
+        return response;
+      }
+
+      logger.error(`Failed to handle ${request.method} ${pathname}:`, error);
+      return json({ error: "Internal server error" }, 500);
+    }
+  }
+
+  private authorize(request: Request) {
+    const header = request.headers.get("authorization") ?? "";
+    // Only the header, tokens in URLs end up in access logs
+    const token = header.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+
+    if (!token || !timingSafeEqual(token, this.options.token))
+      throw new ApiError(401, "Missing or invalid token");
+  }
+
+  private async readBody(request: Request): Promise<ApiSetPayload> {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError(400, "Body must be JSON");
+    }
+
+    if (typeof body !== "object" || body === null || Array.isArray(body))
+      throw new ApiError(400, "Body must be a JSON object");
+
+    const { on, brightness, position } = body as Record<string, unknown>;
+    if (on !== undefined && typeof on !== "boolean")
+      throw new ApiError(400, "on must be a boolean");
+    for (const [key, value] of Object.entries({ brightness, position }))
+      if (
+        value !== undefined &&
+        (typeof value !== "number" || value < 0 || value > 100)
+      )
+        throw new ApiError(400, `${key} must be a number between 0 and 100`);
+
+    return body as ApiSetPayload;
+  }
+
+  // -- Routes --
+
+  private apiDeviceOf(device: Device): ApiDevice {
+    return {
+      id: device.id,
+      name: device.name,
+      room: device.roomName,
+      home: device.home,
+      type: deviceTypeNames[device.type],
+      macAddress: device.macAddress,
+      gatewayId: device.gatewayId,
+      state: service.deviceService?.getState(device.id) ?? null,
+      online: service.availabilityService?.isOnline(device.id) ?? true,
+      bleUpdatedAt: service.deviceService?.bleUpdatedAt[device.id] ?? null,
+    };
+  }
+
+  private streamEvents(): Response {
+    const encoder = new TextEncoder();
+    let close = () => {};
+
+    const body = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        const send = (event: BridgeEvent) =>
+          controller.enqueue(
+            encoder.encode(
+              `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+            )
+          );
+
+        // Replay the recent events so that the feed is not empty on load
+        for (const event of service.eventService?.recent ?? []) send(event);
+        const unsubscribe = service.eventService?.subscribe(send);
+        // Comments keep proxies from closing an idle stream
+        const keepAlive = setInterval(
+          () => controller.enqueue(encoder.encode(": ping\n\n")),
+          25_000
+        );
+
+        close = () => {
+          unsubscribe?.();
+          clearInterval(keepAlive);
+          this.streams.delete(close);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        };
+        this.streams.add(close);
+      },
+      cancel: () => close(),
+    });
+
+    return new Response(body, {
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+      },
+    });
+  }
+
+  private getStatus(): ApiStatus {
+    return {
+      accounts: [...service.accountServices.values()].map((account) => ({
+        id: account.id,
+        name: account.name,
+        connected: account.mqttService?.client.connected ?? false,
+      })),
+      broker: {
+        running: service.aedesService?.isRunning ?? false,
+        clients: service.aedesService?.aedes.connectedClients ?? 0,
+      },
+      scanners: [...(service.scannerService?.scanners.values() ?? [])],
+      devices: Object.keys(service.deviceService?.devices ?? {}).length,
+      scenes: Object.keys(service.deviceService?.scenes ?? {}).length,
+    };
+  }
+
+  private listDevices(): Record<string, ApiDevice> {
+    return Object.fromEntries(
+      Object.values(service.deviceService?.devices ?? {}).map((device) => [
+        device.id,
+        this.apiDeviceOf(device),
+      ])
+    );
+  }
+
+  private getDevice(id: string): ApiDevice {
+    const device = service.deviceService?.getByName(id);
+    if (!device) throw new ApiError(404, `Device ${id} not found`);
+
+    return this.apiDeviceOf(device);
+  }
+
+  private setDevice(id: string, payload: ApiSetPayload): ApiDevice {
+    const deviceService = service.deviceService;
+    const device = deviceService?.getByName(id);
+    if (!deviceService || !device)
+      throw new ApiError(404, `Device ${id} not found`);
+
+    logger.info(`Setting device ${id}:`, payload);
+
+    switch (device.type) {
+      case DeviceType.SWITCH:
+      case DeviceType.FAN:
+        if (payload.on === undefined)
+          throw new ApiError(400, `Device ${id} needs on`);
+        deviceService.switchDevice(id, payload.on);
+        break;
+      case DeviceType.DIMMING:
+        if (payload.on === false) deviceService.dimmingDevice(id, 0);
+        else if (payload.brightness !== undefined)
+          deviceService.dimmingDevice(id, payload.brightness);
+        else if (payload.on)
+          // Turn on at the last known brightness
+          deviceService.dimmingDevice(
+            id,
+            deviceService.getState(id)?.brightness || 100
+          );
+        else throw new ApiError(400, `Device ${id} needs on or brightness`);
+        break;
+      case DeviceType.CURTAIN: {
+        const position =
+          payload.position ??
+          (payload.on === undefined ? undefined : payload.on ? 100 : 0);
+        if (position === undefined)
+          throw new ApiError(400, `Device ${id} needs position or on`);
+        if (!deviceService.curtainControl)
+          throw new ApiError(400, `Curtain control is not enabled`);
+        deviceService.curtainDevice(id, position);
+        break;
+      }
+    }
+
+    // The state is updated optimistically until the device confirms it
+    return this.apiDeviceOf(device);
+  }
+}
+
+export default ApiService;
+export { ApiError };
+export type { ApiDevice, ApiServiceOptions, ApiSetPayload, ApiStatus };
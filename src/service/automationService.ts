@@ -0,0 +1,243 @@
+import { Logger } from "../logger.ts";
+import { sunTimes } from "../sun.ts";
+import service from "./service.ts";
+import type { Device, DeviceState } from "./deviceService.ts";
+
+const logger = Logger.create("AutomationService");
+
+const weekdays = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+type Weekday = (typeof weekdays)[number];
+
+type AutomationTrigger = "autoOff" | "at" | "sun";
+
+interface AutomationRule {
+  id: string;
+  device: string; // device id as used by DeviceService
+  // Exactly one of the triggers
+  autoOff?: number; // seconds after the device turns on
+  at?: string; // local time as HH:MM
+  sun?: "sunrise" | "sunset";
+  offset?: number; // minutes after the sun event, negative before
+  days?: Weekday[]; // days the schedule runs on, every day when unset
+  action?: "on" | "off"; // what schedules do, auto-off always turns off
+  level?: number; // 0-100 brightness or position when turning on
+}
+
+interface AutomationServiceOptions {
+  rules: AutomationRule[];
+  latitude?: number; // required by sun triggers
+  longitude?: number;
+}
+
+interface AutomationStatus {
+  id: string;
+  device: string;
+  trigger: AutomationTrigger;
+  nextRunAt: number | null; // auto-off rules only have one while armed
+  lastRunAt: number | null;
+}
+
+// Long waits are split so that clock changes do not delay runs for long
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+// Sun events can be missing for months close to the poles
+const MAX_SEARCH_DAYS = 366;
+
+function triggerOf(rule: AutomationRule): AutomationTrigger {
+  if (rule.autoOff !== undefined) return "autoOff";
+  return rule.sun ? "sun" : "at";
+}
+
+/**
+ * Runs timers, weekly schedules and sun triggers inside the bridge, so that
+ * they keep working without the Yoswit app or a HomeKit hub.
+ */
+class AutomationService {
+  options: AutomationServiceOptions;
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private nextRuns: Map<string, number> = new Map();
+  private lastRuns: Map<string, number> = new Map();
+
+  constructor(options: AutomationServiceOptions) {
+    this.options = options;
+  }
+
+  start() {
+    for (const rule of this.options.rules) {
+      if (!service.deviceService?.getByName(rule.device))
+        logger.warn(
+          `Automation ${rule.id} targets unknown device ${rule.device}`
+        );
+
+      if (triggerOf(rule) !== "autoOff") this.schedule(rule);
+      else this.armRestoredAutoOff(rule);
+    }
+  }
+
+  stop() {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.nextRuns.clear();
+  }
+
+  list(): AutomationStatus[] {
+    return this.options.rules.map((rule) => ({
+      id: rule.id,
+      device: rule.device,
+      trigger: triggerOf(rule),
+      nextRunAt: this.nextRuns.get(rule.id) ?? null,
+      lastRunAt: this.lastRuns.get(rule.id) ?? null,
+    }));
+  }
+
+  // -- Auto-off --
+
+  /** Arms auto-off rules when their device turns on, from BLE or commands. */
+  handleStateChange(device: Device, state: DeviceState) {
+    for (const rule of this.options.rules) {
+      if (rule.device !== device.id || rule.autoOff === undefined) continue;
+      // Stale states may be wrong, the next advertisement settles them
+      if (state.stale) continue;
+
+      if (!state.on) this.cancel(rule);
+      else if (!this.timers.has(rule.id)) this.armAutoOff(rule, Date.now());
+    }
+  }
+
+  /**
+   * Arms an auto-off rule for a state restored at startup, which never passes
+   * through handleStateChange. States the device may have changed since are
+   * left to the next advertisement.
+   */
+  private armRestoredAutoOff(rule: AutomationRule) {
+    const state = service.deviceService?.getState(rule.device);
+    if (!state?.on || state.stale) return;
+
+    const timeout = service.availabilityService?.options.timeout ?? 0;
+    if (timeout > 0 && Date.now() - state.updatedAt > timeout) {
+      logger.info(
+        `Not arming automation ${rule.id}, ${rule.device} was last seen too long ago`
+      );
+      return;
+    }
+
+    // States saved before the on time was tracked count from the restart
+    this.armAutoOff(rule, state.onSince ?? Date.now());
+  }
+
+  private armAutoOff(rule: AutomationRule, onSince: number) {
+    this.nextRuns.set(rule.id, onSince + rule.autoOff! * 1000);
+    this.arm(rule);
+  }
+
+  // -- Schedules --
+
+  /** The first run of a schedule after `from`, null if it never runs. */
+  nextRunOf(rule: AutomationRule, from: Date): Date | null {
+    for (let offset = 0; offset < MAX_SEARCH_DAYS; offset++) {
+      const day = new Date(
+        from.getFullYear(),
+        from.getMonth(),
+        from.getDate() + offset
+      );
+      if (rule.days && !rule.days.includes(weekdays[day.getDay()])) continue;
+
+      const run = this.runOn(rule, day);
+      if (run && run > from) return run;
+    }
+
+    return null;
+  }
+
+  private runOn(rule: AutomationRule, day: Date): Date | null {
+    if (rule.at) {
+      const [hours, minutes] = rule.at.split(":").map(Number);
+      return new Date(
+        day.getFullYear(),
+        day.getMonth(),
+        day.getDate(),
+        hours,
+        minutes
+      );
+    }
+
+    const { latitude, longitude } = this.options;
+    if (!rule.sun || latitude === undefined || longitude === undefined)
+      return null;
+
+    const event = sunTimes(day, latitude, longitude)[rule.sun];
+    return event && new Date(event.getTime() + (rule.offset ?? 0) * 60 * 1000);
+  }
+
+  private schedule(rule: AutomationRule) {
+    const next = this.nextRunOf(rule, new Date());
+    if (!next) {
+      logger.warn(`Automation ${rule.id} has no upcoming run`);
+      this.nextRuns.delete(rule.id);
+      return;
+    }
+
+    logger.info(`Automation ${rule.id} runs next at ${next.toISOString()}`);
+    this.nextRuns.set(rule.id, next.getTime());
+    this.arm(rule);
+  }
+
+  // -- Running --
+
+  private arm(rule: AutomationRule) {
+    const due = this.nextRuns.get(rule.id)!;
+    const delay = Math.min(Math.max(due - Date.now(), 0), MAX_TIMER_DELAY);
+
+    this.timers.set(
+      rule.id,
+      setTimeout(() => {
+        if (Date.now() < due) {
+          this.arm(rule);
+          return;
+        }
+
+        this.timers.delete(rule.id);
+        this.nextRuns.delete(rule.id);
+        this.run(rule);
+        if (triggerOf(rule) !== "autoOff") this.schedule(rule);
+      }, delay)
+    );
+  }
+
+  private cancel(rule: AutomationRule) {
+    const timer = this.timers.get(rule.id);
+    if (timer !== undefined) clearTimeout(timer);
+    this.timers.delete(rule.id);
+    this.nextRuns.delete(rule.id);
+  }
+
+  private run(rule: AutomationRule) {
+    const on = rule.autoOff === undefined && rule.action === "on";
+    logger.info(
+      `Running automation ${rule.id}: turning ${rule.device} ${
+        on ? "on" : "off"
+      }`
+    );
+    this.lastRuns.set(rule.id, Date.now());
+
+    try {
+      service.deviceService?.runAction({
+        deviceId: rule.device,
+        on,
+        level: rule.level,
+      });
+    } catch (error) {
+      logger.error(`Failed to run automation ${rule.id}:`, error);
+    }
+  }
+}
+
+export default AutomationService;
+export { weekdays };
+export type {
+  AutomationRule,
+  AutomationServiceOptions,
+  AutomationStatus,
+  AutomationTrigger,
+  Weekday,
+};
@@ -0,0 +1,146 @@
+import { Logger } from "../logger.ts";
+import service from "./service.ts";
+
+const logger = Logger.create("AvailabilityService");
+
+interface AvailabilityServiceOptions {
+  timeout: number; // milliseconds without a sighting before a device is offline, 0 never
+  failureThreshold?: number; // failed commands in a row before a device is offline
+  failureExpiry?: number; // milliseconds until failed commands are forgotten, 0 never
+}
+
+/**
+ * Tracks whether devices are reachable from BLE advertisements and gateway
+ * command outcomes, so that controllers can show them as not responding.
+ */
+class AvailabilityService {
+  options: AvailabilityServiceOptions;
+  // When a BLE advertisement or a successful command last reached the device
+  lastSeenAt: Map<string, number> = new Map();
+  private offline: Set<string> = new Set();
+  // Failed commands in a row, and until when a device is kept offline
+  private failures: Map<string, number> = new Map();
+  private unreachableUntil: Map<string, number> = new Map();
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: AvailabilityServiceOptions) {
+    this.options = options;
+  }
+
+  private get failureThreshold(): number {
+    return this.options.failureThreshold ?? 3;
+  }
+
+  private get failureExpiry(): number {
+    return this.options.failureExpiry ?? 300000;
+  }
+
+  start() {
+    const period = Math.min(
+      ...[this.options.timeout, this.failureExpiry].filter((ms) => ms > 0)
+    );
+    if (!isFinite(period) || this.checkTimer !== null) return;
+
+    this.checkTimer = setInterval(
+      () => this.checkDevices(),
+      Math.max(period / 4, 1000)
+    );
+  }
+
+  stop() {
+    if (this.checkTimer !== null) clearInterval(this.checkTimer);
+    this.checkTimer = null;
+  }
+
+  /** Devices are online until they were seen and then went silent or failed. */
+  isOnline(id: string): boolean {
+    return !this.offline.has(id);
+  }
+
+  markSeen(id: string) {
+    this.lastSeenAt.set(id, Date.now());
+    this.failures.delete(id);
+    this.unreachableUntil.delete(id);
+    if (this.offline.has(id)) this.setOnline(id, true, "seen again");
+  }
+
+  /** Counts a command the gateway reported as failed, a single one is not enough. */
+  markFailed(id: string, reason: string) {
+    const failures = (this.failures.get(id) ?? 0) + 1;
+    this.failures.set(id, failures);
+    if (failures < this.failureThreshold) return;
+
+    this.markUnreachable(id, `${reason} (${failures} times in a row)`);
+  }
+
+  /** Marks a device offline until it is seen again or the mark expires. */
+  markUnreachable(id: string, reason: string) {
+    this.unreachableUntil.set(
+      id,
+      this.failureExpiry ? Date.now() + this.failureExpiry : Infinity
+    );
+    if (!this.offline.has(id)) this.setOnline(id, false, reason);
+  }
+
+  private isSilent(id: string, now: number): boolean {
+    const lastSeenAt = this.lastSeenAt.get(id);
+    return (
+      !!this.options.timeout &&
+      lastSeenAt !== undefined &&
+      now - lastSeenAt > this.options.timeout
+    );
+  }
+
+  checkDevices() {
+    const now = Date.now();
+
+    // Unreachable marks expire, so that a device does not stay offline when
+    // nothing else can report it back
+    for (const [id, unreachableUntil] of this.unreachableUntil) {
+      if (now < unreachableUntil) continue;
+
+      this.failures.delete(id);
+      this.unreachableUntil.delete(id);
+      if (this.offline.has(id) && !this.isSilent(id, now))
+        this.setOnline(id, true, "unreachable mark expired");
+    }
+
+    // Silence only means something while a scanner is listening
+    const scanners = [...(service.scannerService?.scanners.values() ?? [])];
+    if (service.scannerService && !scanners.some((scanner) => scanner.alive))
+      return;
+
+    for (const [id, lastSeenAt] of this.lastSeenAt) {
+      if (!service.deviceService?.getByName(id)) {
+        this.lastSeenAt.delete(id);
+        this.offline.delete(id);
+        continue;
+      }
+
+      if (!this.offline.has(id) && this.isSilent(id, now))
+        this.setOnline(
+          id,
+          false,
+          `not seen since ${new Date(lastSeenAt).toISOString()}`
+        );
+    }
+  }
+
+  private setOnline(id: string, online: boolean, reason: string) {
+    const device = service.deviceService?.getByName(id);
+    if (!device) return;
+
+    if (online) this.offline.delete(id);
+    else this.offline.add(id);
+
+    const summary = `${id} ${online ? "online" : "offline"}, ${reason}`;
+    if (online) logger.info(`Device ${summary}`);
+    else logger.warn(`Device ${summary}`);
+    service.eventService?.emit("state", summary, { id, online });
+
+    service.aedesService?.handleAvailabilityChange(device, online);
+  }
+}
+
+export default AvailabilityService;
+export type { AvailabilityServiceOptions };
@@ -0,0 +1,48 @@
+import { join } from "node:path";
+import { Logger } from "../logger.ts";
+
+const logger = Logger.create("CacheService");
+
+class CacheService {
+  dataDir: string;
+
+  constructor(dataDir: string) {
+    this.dataDir = dataDir;
+  }
+
+  private pathOf(name: string): string {
+    return join(this.dataDir, `${name}.json`);
+  }
+
+  async read<T>(name: string): Promise<T | null> {
+    try {
+      const content = await Deno.readTextFile(this.pathOf(name));
+      logger.debug(`Read ${name} from cache`);
+
+      return JSON.parse(content) as T;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound))
+        logger.warn(`Failed to read ${name} from cache:`, String(error));
+
+      return null;
+    }
+  }
+
+  async write(name: string, data: unknown) {
+    const path = this.pathOf(name);
+    // Write to a temporary file first so a crash never leaves a truncated cache
+    const tempPath = `${path}.tmp`;
+
+    try {
+      await Deno.mkdir(this.dataDir, { recursive: true });
+      await Deno.writeTextFile(tempPath, JSON.stringify(data));
+      await Deno.rename(tempPath, path);
+
+      logger.debug(`Wrote ${name} to cache`);
+    } catch (error) {
+      logger.warn(`Failed to write ${name} to cache:`, String(error));
+    }
+  }
+}
+
+export default CacheService;
@@ -0,0 +1,301 @@
+import { Logger } from "../logger.ts";
+import { sleep } from "../utils.ts";
+import service from "./service.ts";
+
+const logger = Logger.create("CloudService");
+
+interface CloudServiceOptions {
+  baseUrl: string;
+  username: string;
+  password: string;
+  appId: string;
+  cachePrefix?: string; // keeps the cached responses of several accounts apart
+  requestTimeout?: number; // in milliseconds, a hung request counts as failed
+  retry?: {
+    initialDelay?: number; // in milliseconds
+    maxDelay?: number; // in milliseconds
+  };
+}
+
+interface AppSettingConfig {
+  mqtt_server: string;
+  mqtt_port: number;
+  mqtt_keepalive: number;
+  mqtt_username: string;
+  mqtt_password: string;
+}
+
+interface AppSetting {
+  config: AppSettingConfig;
+}
+
+class CloudRequestError extends Error {
+  status: number;
+  body: string;
+
+  constructor(path: string, status: number, body: string) {
+    super(`Request to ${path} failed with status ${status}`);
+    this.name = "CloudRequestError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+class CloudService {
+  options: CloudServiceOptions;
+  private cookie: string | null = null;
+  private cookieExpiresAt: number | null = null;
+  private loginPromise: Promise<void> | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: CloudServiceOptions) {
+    this.options = options;
+  }
+
+  private cacheNameOf(name: string): string {
+    return this.options.cachePrefix
+      ? `${this.options.cachePrefix}-${name}`
+      : name;
+  }
+
+  private get origin(): string {
+    // Allow a full origin (e.g. for local testing), default to https
+    return this.options.baseUrl.includes("://")
+      ? this.options.baseUrl
+      : `https://${this.options.baseUrl}`;
+  }
+
+  private get signal(): AbortSignal {
+    return AbortSignal.timeout(this.options.requestTimeout ?? 15000);
+  }
+
+  private get hasValidSession(): boolean {
+    if (!this.cookie) return false;
+    if (this.cookieExpiresAt === null) return true;
+
+    return Date.now() < this.cookieExpiresAt;
+  }
+
+  // -- Session Handling --
+
+  private parseSessionCookie(headers: Headers) {
+    const setCookies = headers.getSetCookie();
+    const sessionCookie =
+      setCookies.find((cookie) => cookie.startsWith("sid=")) ?? setCookies[0];
+    if (!sessionCookie) throw new Error("No session cookie received");
+
+    const [pair, ...attributes] = sessionCookie.split(";").map((s) => s.trim());
+    let expiresAt: number | null = null;
+
+    for (const attribute of attributes) {
+      const [key, value] = attribute.split("=");
+      if (!value) continue;
+
+      if (key.toLowerCase() === "max-age") {
+        expiresAt = Date.now() + Number(value) * 1000;
+        break;
+      }
+
+      if (key.toLowerCase() === "expires") {
+        const time = Date.parse(value);
+        if (!isNaN(time)) expiresAt = time;
+      }
+    }
+
+    this.cookie = pair;
+    this.cookieExpiresAt = expiresAt;
+  }
+
+  private async performLogin() {
+    logger.info("Attempting login...");
+
+    const path = "/api/method/login";
+    const resp = await fetch(`${this.origin}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        usr: this.options.username,
+        pwd: this.options.password,
+      }),
+      signal: this.signal,
+    });
+
+    if (!resp.ok)
+      throw new CloudRequestError(path, resp.status, await resp.text());
+    await resp.body?.cancel();
+
+    this.parseSessionCookie(resp.headers);
+    logger.info("Login successful");
+    logger.debug("Session cookie obtained, expires at:", this.cookieExpiresAt);
+  }
+
+  login(): Promise<void> {
+    // Share a single in-flight login between concurrent requests
+    if (!this.loginPromise)
+      this.loginPromise = this.performLogin().finally(() => {
+        this.loginPromise = null;
+      });
+
+    return this.loginPromise;
+  }
+
+  // -- Requests --
+
+  private async request(path: string, init: RequestInit): Promise<Response> {
+    if (!this.hasValidSession) await this.login();
+
+    const send = () =>
+      fetch(`${this.origin}${path}`, {
+        ...init,
+        headers: {
+          ...init.headers,
+          Cookie: this.cookie!,
+          "Content-Type": "application/json",
+        },
+        signal: this.signal,
+      });
+
+    let resp = await send();
+
+    // The session has been invalidated on the server side, log in again once
+    if (resp.status === 401 || resp.status === 403) {
+      logger.warn(`Session rejected by ${path}, logging in again`);
+      await resp.body?.cancel();
+      this.cookie = null;
+
+      await this.login();
+      resp = await send();
+    }
+
+    if (!resp.ok)
+      throw new CloudRequestError(path, resp.status, await resp.text());
+
+    return resp;
+  }
+
+  private async withRetry<T>(
+    label: string,
+    fn: () => Promise<T>,
+    attempts = Infinity
+  ): Promise<T> {
+    const initialDelay = this.options.retry?.initialDelay ?? 1000;
+    const maxDelay = this.options.retry?.maxDelay ?? 60000;
+    let delay = initialDelay;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (attempt >= attempts) {
+          logger.error(`${label} failed after ${attempt} attempts`);
+          throw error;
+        }
+
+        logger.error(`${label} failed, retrying in ${delay}ms:`, String(error));
+        if (error instanceof CloudRequestError) logger.debug(error.body);
+
+        await sleep(delay);
+        delay = Math.min(delay * 2, maxDelay);
+      }
+    }
+  }
+
+  getAppSetting(attempts?: number): Promise<AppSetting> {
+    logger.info("Fetching app settings...");
+
+    return this.withRetry(
+      "getAppSetting",
+      async () => {
+        const resp = await this.request(
+          `/api/method/appv6.getAppSetting?appId=${this.options.appId}`,
+          { method: "GET" }
+        );
+
+        const appSetting = await resp.json();
+        await service.cacheService?.write(
+          this.cacheNameOf("appSetting"),
+          appSetting
+        );
+
+        return appSetting;
+      },
+      attempts
+    );
+  }
+
+  // deno-lint-ignore no-explicit-any
+  afterLogin(attempts?: number): Promise<any> {
+    logger.info("Fetching device profile...");
+
+    return this.withRetry(
+      "afterLogin",
+      async () => {
+        const resp = await this.request("/api/method/appv6.afterLogin", {
+          method: "POST",
+          body: JSON.stringify({
+            deviceId: "",
+            appId: this.options.appId,
+            user_setting_name: `${this.options.appId}-${this.options.username}`,
+          }),
+        });
+
+        const profile = await resp.json();
+        await service.cacheService?.write(
+          this.cacheNameOf("afterLogin"),
+          profile
+        );
+
+        return profile;
+      },
+      attempts
+    );
+  }
+
+  readCache<T>(name: "appSetting" | "afterLogin"): Promise<T | null> {
+    return service.cacheService
+      ? service.cacheService.read<T>(this.cacheNameOf(name))
+      : Promise.resolve(null);
+  }
+
+  // -- Profile Sync --
+
+  startProfileSync(
+    interval: number,
+    // deno-lint-ignore no-explicit-any
+    onProfile: (resp: any) => void,
+    onFailure?: (error: unknown) => void
+  ) {
+    if (interval <= 0) {
+      logger.info("Periodic profile sync disabled");
+      return;
+    }
+
+    logger.info(`Syncing device profile every ${interval / 1000} seconds`);
+
+    const schedule = () => {
+      this.syncTimer = setTimeout(async () => {
+        try {
+          onProfile(await this.afterLogin());
+        } catch (error) {
+          logger.error("Failed to apply synced profile:", String(error));
+          onFailure?.(error);
+        }
+
+        schedule();
+      }, interval);
+    };
+
+    schedule();
+  }
+
+  stopProfileSync() {
+    if (this.syncTimer !== null) clearTimeout(this.syncTimer);
+    this.syncTimer = null;
+  }
+}
+
+export default CloudService;
+export { CloudRequestError };
+export type { AppSetting, AppSettingConfig, CloudServiceOptions };
@@ -0,0 +1,290 @@
+import { md5 } from "../utils.ts";
+import service from "./service.ts";
+import { Logger } from "../logger.ts";
+import { deviceTypeNames } from "./deviceService.ts";
+import type {
+  CommandResponse,
+  PublishData,
+  ResponseOutcome,
+} from "./mqttService.ts";
+
+const logger = Logger.create("CommandService");
+
+interface CommandServiceOptions {
+  interval: number; // minimum milliseconds between writes to one gateway
+  debounce: number; // milliseconds to wait for a newer value of debounced commands
+  mergeWindow: number; // milliseconds to wait for commands to merge with
+  retries: number; // extra attempts for unconfirmed commands
+  retryDelay: number; // milliseconds to wait for a confirmation before retrying
+  // Gateway response topic, `{gateway}` is the hashed id. Empty by default, as
+  // the topic real gateways answer on is not documented
+  responseTopic: string;
+  responseTimeout: number; // milliseconds to wait for a gateway response
+}
+
+interface CommandResult {
+  outcome: ResponseOutcome;
+  detail?: string;
+  at: number;
+}
+
+interface Command {
+  key: string; // queued commands with the same key collapse into the latest one
+  deviceIds: string[];
+  gatewayId: string;
+  accountId?: string; // account whose cloud connection reaches the gateway
+  data: PublishData;
+  debounce?: boolean;
+  // Combines the command with a queued one of the same key instead of replacing it
+  merge?: (queued: Command) => Command;
+  // The command to resend when it has not been confirmed, null once it is done
+  retry?: () => Command | null;
+  // Called when the gateway reports that it could not execute the command
+  onFailure?: () => void;
+}
+
+interface QueuedCommand extends Command {
+  attempt: number;
+  readyAt: number;
+}
+
+class CommandService {
+  options: CommandServiceOptions;
+  private queues: Map<string, QueuedCommand[]> = new Map();
+  private lastSentAt: Map<string, number> = new Map();
+  private drainTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private retryTimers: Set<ReturnType<typeof setTimeout>> = new Set();
+  // Outcome of the last command sent to each device
+  results: Map<string, CommandResult> = new Map();
+
+  constructor(options: Partial<CommandServiceOptions> = {}) {
+    this.options = {
+      interval: options.interval ?? 250,
+      debounce: options.debounce ?? 150,
+      mergeWindow: options.mergeWindow ?? 50,
+      retries: options.retries ?? 2,
+      retryDelay: options.retryDelay ?? 3000,
+      responseTopic: options.responseTopic ?? "",
+      responseTimeout: options.responseTimeout ?? 5000,
+    };
+  }
+
+  enqueue(command: Command) {
+    let delay = 0;
+    if (command.debounce) delay = this.options.debounce;
+    else if (command.merge) delay = this.options.mergeWindow;
+
+    this.push({ ...command, attempt: 1, readyAt: Date.now() + delay });
+  }
+
+  stop() {
+    for (const timer of this.drainTimers.values()) clearTimeout(timer);
+    for (const timer of this.retryTimers) clearTimeout(timer);
+
+    this.drainTimers.clear();
+    this.retryTimers.clear();
+    this.queues.clear();
+  }
+
+  // -- Queue Handling --
+
+  private push(command: QueuedCommand) {
+    const queue = this.queues.get(command.gatewayId) ?? [];
+    const index = queue.findIndex((queued) => queued.key === command.key);
+
+    if (index >= 0 && command.merge) {
+      logger.debug(`Merged queued command for ${command.key}`);
+      queue[index] = {
+        ...command.merge(queue[index]),
+        attempt: Math.min(command.attempt, queue[index].attempt),
+        readyAt: queue[index].readyAt,
+      };
+    } else if (index >= 0) {
+      logger.debug(`Collapsed queued command for ${command.key}`);
+      queue[index] = command;
+    } else queue.push(command);
+
+    this.queues.set(command.gatewayId, queue);
+    this.schedule(command.gatewayId);
+  }
+
+  private schedule(gatewayId: string) {
+    clearTimeout(this.drainTimers.get(gatewayId));
+    this.drainTimers.delete(gatewayId);
+
+    const queue = this.queues.get(gatewayId);
+    if (!queue?.length) return;
+
+    const readyAt = Math.min(...queue.map((command) => command.readyAt));
+    const allowedAt =
+      (this.lastSentAt.get(gatewayId) ?? 0) + this.options.interval;
+    const delay = Math.max(readyAt, allowedAt) - Date.now();
+
+    this.drainTimers.set(
+      gatewayId,
+      setTimeout(() => this.drain(gatewayId), Math.max(delay, 0))
+    );
+  }
+
+  private async drain(gatewayId: string) {
+    this.drainTimers.delete(gatewayId);
+
+    const queue = this.queues.get(gatewayId) ?? [];
+    const now = Date.now();
+    const index = queue.findIndex((command) => command.readyAt <= now);
+
+    if (index >= 0) {
+      const [command] = queue.splice(index, 1);
+      this.lastSentAt.set(gatewayId, now);
+
+      try {
+        await this.send(command);
+      } catch (error) {
+        this.handleSendError(command, error);
+      }
+    }
+
+    this.schedule(gatewayId);
+  }
+
+  private handleSendError(command: QueuedCommand, error: unknown) {
+    logger.error(`Failed to send command for ${command.key}:`, String(error));
+    this.count("yoswit_command_failures_total", command, "error");
+
+    // The command never reached the gateway, so it is sent again as it is
+    if (command.attempt <= this.options.retries) {
+      this.push({
+        ...command,
+        attempt: command.attempt + 1,
+        readyAt: Date.now() + this.options.retryDelay,
+      });
+      return;
+    }
+
+    try {
+      command.onFailure?.();
+    } catch (handlerError) {
+      logger.error(
+        `Failed to revert the state for ${command.key}:`,
+        String(handlerError)
+      );
+    }
+  }
+
+  private async send(command: QueuedCommand) {
+    const hash = await md5(await md5(command.gatewayId));
+    const topic = `cmd/${hash}`;
+    logger.debug(
+      `Sending command for ${command.key} (attempt ${command.attempt}) to topic: ${topic}`
+    );
+
+    const mqttService = service.accountServices.get(
+      command.accountId ?? ""
+    )?.mqttService;
+    if (!mqttService) {
+      logger.error(`No MQTT connection for account of ${command.key}`);
+      this.count("yoswit_command_failures_total", command, "no_connection");
+      return;
+    }
+
+    this.count("yoswit_commands_total", command);
+
+    if (this.options.responseTopic)
+      mqttService
+        .request(
+          topic,
+          this.options.responseTopic.replace("{gateway}", hash),
+          { ...command.data },
+          this.options.responseTimeout
+        )
+        .then((response) => this.handleResponse(command, response))
+        .catch((error) => {
+          logger.error(
+            `Failed to handle the response for ${command.key}:`,
+            String(error)
+          );
+          this.count("yoswit_command_failures_total", command, "error");
+        });
+    else await mqttService.publish(topic, { ...command.data });
+
+    if (command.retry) {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(timer);
+        this.checkConfirmation(command);
+      }, this.options.retryDelay);
+      this.retryTimers.add(timer);
+    }
+  }
+
+  private count(
+    name: "yoswit_commands_total" | "yoswit_command_failures_total",
+    command: Command,
+    reason?: string
+  ) {
+    for (const deviceId of command.deviceIds) {
+      const device = service.deviceService?.getByName(deviceId);
+      service.metricsService?.increment(name, {
+        device: deviceId,
+        type: device ? deviceTypeNames[device.type] : "unknown",
+        ...(reason ? { reason } : {}),
+      });
+    }
+  }
+
+  private handleResponse(command: QueuedCommand, response: CommandResponse) {
+    const devices = command.deviceIds.join(", ");
+    for (const deviceId of command.deviceIds)
+      this.results.set(deviceId, { ...response, at: Date.now() });
+
+    switch (response.outcome) {
+      case "success":
+        logger.debug(`Command for ${devices} succeeded`);
+        for (const deviceId of command.deviceIds)
+          service.availabilityService?.markSeen(deviceId);
+        break;
+      case "failure":
+        logger.error(
+          `Command for ${devices} failed:`,
+          response.detail ?? "unknown error"
+        );
+        command.onFailure?.();
+        this.count("yoswit_command_failures_total", command, "failure");
+        for (const deviceId of command.deviceIds)
+          service.availabilityService?.markFailed(
+            deviceId,
+            `command failed: ${response.detail ?? "unknown error"}`
+          );
+        break;
+      case "timeout":
+        logger.warn(
+          `No response from gateway ${command.gatewayId} for ${devices}`
+        );
+        this.count("yoswit_command_failures_total", command, "timeout");
+        break;
+    }
+  }
+
+  private checkConfirmation(command: QueuedCommand) {
+    const retry = command.retry?.();
+    if (!retry) return;
+
+    const devices = retry.deviceIds.join(", ");
+    if (command.attempt > this.options.retries) {
+      logger.warn(
+        `Command for ${devices} not confirmed after ${command.attempt} attempts`
+      );
+      this.count("yoswit_command_failures_total", retry, "unconfirmed");
+      return;
+    }
+
+    logger.warn(
+      `Command for ${devices} not confirmed, retrying (attempt ${
+        command.attempt + 1
+      })`
+    );
+    this.push({ ...retry, attempt: command.attempt + 1, readyAt: 0 });
+  }
+}
+
+export default CommandService;
+export type { Command, CommandResult, CommandServiceOptions };
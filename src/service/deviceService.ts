@@ -1,16 +1,29 @@
-import { md5 } from "../utils.ts";
 import service from "./service.ts";
 import { Logger } from "../logger.ts";
+import type { Command } from "./commandService.ts";
+import type { PublishData } from "./mqttService.ts";
+import OverrideService from "./overrideService.ts";
 
 const logger = Logger.create("DeviceService");
 
 enum DeviceType {
   SWITCH,
   DIMMING,
+  CURTAIN,
+  FAN,
 }
 
+type DeviceTypeName = "switch" | "dimming" | "curtain" | "fan";
+
+const deviceTypeNames: Record<DeviceType, DeviceTypeName> = {
+  [DeviceType.SWITCH]: "switch",
+  [DeviceType.DIMMING]: "dimming",
+  [DeviceType.CURTAIN]: "curtain",
+  [DeviceType.FAN]: "fan",
+};
+
 interface Device {
-  id: string; // => `{guid}-{index}`
+  id: string; // => `{guid}-{index}`, prefixed with `{account}:` for named accounts
 
   guid: string;
   name?: string;
@@ -19,13 +32,104 @@ interface Device {
   macAddress: string;
   roomName?: string;
   gatewayId: string;
+  accountId?: string; // only set when several accounts are bridged
+  home?: string; // display name of the account
+}
+
+interface DeviceAccount {
+  id: string; // empty for a single account, keeping the ids unprefixed
+  name?: string;
+}
+
+type StateSource = "ble" | "command";
+
+interface DeviceState {
+  on: boolean;
+  brightness?: number; // 0-100, dimming devices only
+  position?: number; // 0-100 open, curtains only
+  updatedAt: number; // when a command or advertisement last set the state
+  onSince?: number; // when the device turned on, unset while it is off
+  source: StateSource;
+  pending: boolean; // waiting for a BLE advertisement to confirm it
+  stale?: boolean; // restored from disk and older than the configured age
+}
+
+// The part of a state that commands set and advertisements report
+type ExpectedState = Pick<DeviceState, "on" | "brightness" | "position">;
+
+interface PendingState {
+  expected: ExpectedState;
+  fallback: DeviceState | undefined;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface SwitchCommand extends Command {
+  gangs: Map<number, boolean>; // gang index => on
+}
+
+interface SceneAction {
+  deviceId: string;
+  on: boolean;
+  level?: number; // 0-100 brightness or position, defaults to 100 when on
+}
+
+// A scene as listed in `profile.profile_scene` of the afterLogin response
+interface ProfileScene {
+  name?: string;
+  title?: string;
+  room_name?: string;
+  scene_device?: ProfileSceneDevice[];
+}
+
+interface ProfileSceneDevice {
+  device?: string;
+  device_button_group?: string;
+  status?: string; // "ON" or "OFF"
+  level?: number | string;
 }
 
+interface Scene {
+  id: string; // => `scene-{name}`, prefixed like device ids
+
+  name?: string;
+  roomName?: string;
+  actions: SceneAction[];
+  accountId?: string;
+  home?: string;
+}
+
+interface Changes<T> {
+  added: T[];
+  removed: T[];
+  renamed: { before: T; after: T }[];
+}
+
+type DeviceChanges = Changes<Device>;
+type SceneChanges = Changes<Scene>;
+
 class DeviceService {
   devices: Record<string, Device> = {};
-
-  // deno-lint-ignore no-explicit-any
-  static fromAfterLoginResp(data: any): DeviceService {
+  scenes: Record<string, Scene> = {};
+  states: Record<string, DeviceState> = {};
+  // When a BLE advertisement last reported the state, for diagnostics
+  bleUpdatedAt: Record<string, number> = {};
+  confirmTimeout = 10000; // in milliseconds, 0 disables confirmation
+  // Curtain writes reuse the dimming layout with a guessed opcode, so they are
+  // only sent when enabled explicitly
+  curtainControl = false;
+  private pendingStates: Map<string, PendingState> = new Map();
+  // State before the last command, restored when the gateway reports a failure
+  private fallbackStates: Map<string, DeviceState | undefined> = new Map();
+  // Devices reported by a BLE scanner, only those can be confirmed
+  private observedDevices: Set<string> = new Set();
+
+  static fromAfterLoginResp(
+    // deno-lint-ignore no-explicit-any
+    data: any,
+    overrides: OverrideService = service.overrideService ??
+      new OverrideService(),
+    account: DeviceAccount = { id: "" }
+  ): DeviceService {
     const deviceInfo: Record<
       string,
       {
@@ -67,6 +171,8 @@ class DeviceService {
     }
 
     const devicesManager = new DeviceService();
+    // Button groups without a matching device type, reported once at the end
+    const unsupportedGroups: Map<string, number> = new Map();
 
     for (const profileSubdevice of data.profile.profile_subdevice) {
       try {
@@ -75,87 +181,63 @@ class DeviceService {
           continue;
         }
 
-        if (profileSubdevice.device_button_group.startsWith("ONOFF GANG")) {
-          const name = profileSubdevice.title as string | undefined;
-          // Skip devices with V1 or V2 because they are likely to be a internal on/off switch for the dimming device
-          if (name && (name.includes("V1") || name.includes("V2"))) {
-            logger.warn("Skipping internal switch device:", name);
-            continue;
-          }
-
-          const index = Number(
-            profileSubdevice.device_button_group.replace("ONOFF GANG", "")
-          );
-          const id = `${profileSubdevice.device}-${index}`;
-          if (devicesManager.devices[id]) {
-            logger.warn(`Duplicate device id: ${id}`);
-            continue;
-          }
+        const group = profileSubdevice.device_button_group as string;
+        const buttonGroup = DeviceService.parseButtonGroup(group);
+        if (!buttonGroup) {
+          logger.debug(`Unsupported device button group: ${group}`);
+          unsupportedGroups.set(group, (unsupportedGroups.get(group) ?? 0) + 1);
+          continue;
+        }
 
-          const guid = profileSubdevice.device;
-          if (!guid) {
-            logger.warn("Invalid profile subdevice data:", profileSubdevice);
-            continue;
-          }
+        const name = profileSubdevice.title as string | undefined;
+        const { type, index } = buttonGroup;
+        const id = DeviceService.namespaced(
+          account,
+          `${profileSubdevice.device}-${index}`
+        );
+        if (devicesManager.devices[id]) {
+          logger.warn(`Duplicate device id: ${id}`);
+          continue;
+        }
 
-          let roomName = profileSubdevice.room_name;
-          if (roomName) roomName = roomName.replace(/\[\/?en\]/g, "").trim();
-
-          if (
-            !deviceInfo[profileSubdevice.device] ||
-            !deviceInfo[profileSubdevice.device]?.macAddress ||
-            !deviceInfo[profileSubdevice.device]?.gateway
-          ) {
-            logger.warn(
-              `Missing device info for ${profileSubdevice.device}:`,
-              deviceInfo[profileSubdevice.device]
-            );
-            continue;
-          }
+        const guid = profileSubdevice.device;
+        if (!guid) {
+          logger.warn("Invalid profile subdevice data:", profileSubdevice);
+          continue;
+        }
 
-          devicesManager.devices[id] = {
-            id,
-            guid,
-            name,
-            type: DeviceType.SWITCH,
-            index,
-            macAddress: deviceInfo[profileSubdevice.device]!.macAddress!,
-            roomName,
-            gatewayId: deviceInfo[profileSubdevice.device]!.gateway!,
-          };
-        } else if (profileSubdevice.device_button_group.startsWith("DIMMING")) {
-          // DIMMING devices are always single channel
-          const index = 0;
-          const id = `${profileSubdevice.device}-${index}`;
-          if (devicesManager.devices[id]) {
-            logger.warn(`Duplicate device id: ${id}`);
-            continue;
-          }
+        let roomName = profileSubdevice.room_name;
+        if (roomName) roomName = roomName.replace(/\[\/?en\]/g, "").trim();
 
-          const guid = profileSubdevice.device;
-          if (!guid) {
-            logger.warn("Invalid profile subdevice data:", profileSubdevice);
-            continue;
-          }
-
-          let roomName = profileSubdevice.room_name;
-          if (roomName) roomName = roomName.replace(/\[\/?en\]/g, "").trim();
-
-          devicesManager.devices[id] = {
-            id,
-            guid,
-            name: profileSubdevice.title,
-            type: DeviceType.DIMMING,
-            index,
-            macAddress: deviceInfo[profileSubdevice.device]!.macAddress!,
-            roomName,
-            gatewayId: deviceInfo[profileSubdevice.device]!.gateway!,
-          };
-        } else {
+        if (
+          !deviceInfo[profileSubdevice.device] ||
+          !deviceInfo[profileSubdevice.device]?.macAddress ||
+          !deviceInfo[profileSubdevice.device]?.gateway
+        ) {
           logger.warn(
-            `Unsupported device button group: ${profileSubdevice.device_button_group}`
+            `Missing device info for ${profileSubdevice.device}:`,
+            deviceInfo[profileSubdevice.device]
           );
+          continue;
         }
+
+        const device: Device = {
+          id,
+          guid,
+          name,
+          type,
+          index,
+          macAddress: deviceInfo[profileSubdevice.device]!.macAddress!,
+          roomName,
+          gatewayId: deviceInfo[profileSubdevice.device]!.gateway!,
+          ...DeviceService.accountFieldsOf(account),
+        };
+        if (!overrides.isIncluded(device)) {
+          logger.info(`Excluding device ${id} (${name})`);
+          continue;
+        }
+
+        devicesManager.devices[id] = overrides.apply(device);
       } catch (_e) {
         logger.warn(
           `Invalid device button group format: ${profileSubdevice.device_button_group}`
@@ -164,56 +246,445 @@ class DeviceService {
       }
     }
 
-    logger.info(`Loaded ${Object.keys(devicesManager.devices).length} devices`);
+    if (unsupportedGroups.size)
+      logger.warn(
+        `Skipped unsupported device button groups: ${[...unsupportedGroups]
+          .map(([group, count]) => `${group} (${count})`)
+          .join(", ")}`
+      );
+
+    const profileScenes: ProfileScene[] = data.profile.profile_scene ?? [];
+    for (const profileScene of profileScenes) {
+      const scene = DeviceService.parseScene(profileScene, account);
+      if (!scene) {
+        logger.warn("Invalid profile scene data:", profileScene);
+        continue;
+      }
+
+      devicesManager.scenes[scene.id] = scene;
+    }
+
+    logger.info(
+      `Loaded ${Object.keys(devicesManager.devices).length} devices and ${
+        Object.keys(devicesManager.scenes).length
+      } scenes`
+    );
     return devicesManager;
   }
 
-  getByMacAddress(macAddress: string): Device[] {
-    return Object.values(this.devices).filter(
-      (device) => device.macAddress === macAddress
+  private static parseButtonGroup(
+    group: string
+  ): { type: DeviceType; index: number } | null {
+    // Channel number at the end of the group, e.g. `ONOFF GANG2` or `FAN 1`
+    const channel = Number(group.match(/(\d+)\s*$/)?.[1] ?? NaN);
+
+    if (group.startsWith("ONOFF GANG"))
+      return {
+        type: DeviceType.SWITCH,
+        index: Number(group.replace("ONOFF GANG", "")),
+      };
+    // DIMMING devices are always single channel
+    if (group.startsWith("DIMMING"))
+      return { type: DeviceType.DIMMING, index: 0 };
+    // Curtain motors are single channel as well
+    if (group.startsWith("CURTAIN") || group.startsWith("MOTOR"))
+      return { type: DeviceType.CURTAIN, index: 0 };
+    // Fan relays are gangs of the panel they are wired to
+    if (group.startsWith("FAN") || group.startsWith("VENTILATION"))
+      return {
+        type: DeviceType.FAN,
+        index: Number.isNaN(channel) ? 1 : channel,
+      };
+
+    return null;
+  }
+
+  private static namespaced(account: DeviceAccount, id: string): string {
+    return account.id ? `${account.id}:${id}` : id;
+  }
+
+  private static accountFieldsOf(
+    account: DeviceAccount
+  ): Pick<Device, "accountId" | "home"> {
+    return account.id
+      ? { accountId: account.id, home: account.name || account.id }
+      : {};
+  }
+
+  private static parseScene(
+    profileScene: ProfileScene,
+    account: DeviceAccount
+  ): Scene | null {
+    if (!profileScene?.name || !Array.isArray(profileScene.scene_device))
+      return null;
+
+    const actions: SceneAction[] = [];
+    for (const sceneDevice of profileScene.scene_device) {
+      const buttonGroup = sceneDevice.device_button_group
+        ? DeviceService.parseButtonGroup(sceneDevice.device_button_group)
+        : null;
+      if (!sceneDevice.device || !buttonGroup) {
+        logger.warn(
+          `Skipping unsupported action in scene ${profileScene.name}:`,
+          sceneDevice
+        );
+        continue;
+      }
+
+      const level = Number(sceneDevice.level);
+      actions.push({
+        deviceId: DeviceService.namespaced(
+          account,
+          `${sceneDevice.device}-${buttonGroup.index}`
+        ),
+        on: sceneDevice.status === "ON",
+        level: Number.isNaN(level) ? undefined : level,
+      });
+    }
+
+    let roomName = profileScene.room_name;
+    if (roomName) roomName = roomName.replace(/\[\/?en\]/g, "").trim();
+
+    return {
+      // Scene names may contain anything, but ids end up in MQTT topics
+      id: DeviceService.namespaced(
+        account,
+        `scene-${String(profileScene.name).replace(/[^a-zA-Z0-9_-]/g, "_")}`
+      ),
+      name: profileScene.title,
+      roomName,
+      actions,
+      ...DeviceService.accountFieldsOf(account),
+    };
+  }
+
+  /**
+   * Replaces the devices of one account, leaving the devices of other accounts
+   * untouched, and reports what changed.
+   */
+  applyDevices(devices: Record<string, Device>, accountId = ""): DeviceChanges {
+    const changes: DeviceChanges = { added: [], removed: [], renamed: [] };
+    const others = Object.values(this.devices).filter(
+      (device) => (device.accountId ?? "") !== accountId
+    );
+
+    for (const [id, device] of Object.entries(devices)) {
+      const existing = this.devices[id];
+
+      if (!existing) changes.added.push(device);
+      else if (
+        existing.name !== device.name ||
+        existing.roomName !== device.roomName
+      )
+        changes.renamed.push({ before: existing, after: device });
+    }
+
+    for (const [id, device] of Object.entries(this.devices)) {
+      if (devices[id] || others.includes(device)) continue;
+
+      changes.removed.push(device);
+      this.clearPendingState(id);
+      this.fallbackStates.delete(id);
+      delete this.states[id];
+      delete this.bleUpdatedAt[id];
+      this.observedDevices.delete(id);
+    }
+
+    this.devices = {
+      ...Object.fromEntries(others.map((device) => [device.id, device])),
+      ...devices,
+    };
+
+    logger.info(
+      `Applied devices: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.renamed.length} renamed`
     );
+    return changes;
   }
 
-  getByName(name: string): Device | undefined {
-    return this.devices[name];
+  applyScenes(scenes: Record<string, Scene>, accountId = ""): SceneChanges {
+    const changes: SceneChanges = { added: [], removed: [], renamed: [] };
+    const others = Object.values(this.scenes).filter(
+      (scene) => (scene.accountId ?? "") !== accountId
+    );
+
+    for (const [id, scene] of Object.entries(scenes)) {
+      const existing = this.scenes[id];
+
+      if (!existing) changes.added.push(scene);
+      else if (
+        existing.name !== scene.name ||
+        existing.roomName !== scene.roomName
+      )
+        changes.renamed.push({ before: existing, after: scene });
+    }
+
+    for (const [id, scene] of Object.entries(this.scenes))
+      if (!scenes[id] && !others.includes(scene)) changes.removed.push(scene);
+
+    this.scenes = {
+      ...Object.fromEntries(others.map((scene) => [scene.id, scene])),
+      ...scenes,
+    };
+
+    logger.info(
+      `Applied scenes: ${changes.added.length} added, ${changes.removed.length} removed, ${changes.renamed.length} renamed`
+    );
+    return changes;
   }
 
-  async switchDevice(id: string, on: boolean) {
-    logger.debug(`Switching device ${id} to ${on ? "ON" : "OFF"}`);
+  // -- State Handling --
 
-    if (!this.devices[id]) throw new Error(`Device with id ${id} not found`);
+  getState(id: string): DeviceState | undefined {
+    return this.states[id];
+  }
 
-    if (this.devices[id].type !== DeviceType.SWITCH)
-      throw new Error(`Device with id ${id} is not a switch`);
+  /**
+   * Restores persisted states of known devices, marking those older than
+   * `maxAge` or still awaiting confirmation as stale.
+   */
+  restoreStates(states: Record<string, DeviceState>, maxAge: number): number {
+    const now = Date.now();
+    let restored = 0;
+
+    for (const [id, state] of Object.entries(states)) {
+      if (!this.devices[id] || this.states[id]) continue;
+
+      const isOld = maxAge > 0 && now - state.updatedAt > maxAge;
+      this.states[id] = {
+        ...state,
+        pending: false,
+        stale: isOld || state.pending,
+      };
+      if (state.source === "ble") this.bleUpdatedAt[id] = state.updatedAt;
+      restored++;
+    }
+
+    return restored;
+  }
+
+  /** Keeps when the device turned on across states that leave it on. */
+  private withOnSince(id: string, state: DeviceState): DeviceState {
+    if (!state.on) {
+      const { onSince: _onSince, ...offState } = state;
+      return offState;
+    }
+
+    const previous = this.states[id];
+    const onSince =
+      state.onSince ??
+      (previous?.on && !previous.stale ? previous.onSince : undefined) ??
+      state.updatedAt;
+    return { ...state, onSince };
+  }
+
+  private setState(device: Device, state: DeviceState) {
+    state = this.withOnSince(device.id, state);
+    this.states[device.id] = state;
+    service.stateStoreService?.scheduleSave();
+    if (state.source === "ble") this.bleUpdatedAt[device.id] = state.updatedAt;
+
+    service.eventService?.emit(
+      "state",
+      `${device.id} ${JSON.stringify({
+        on: state.on,
+        brightness: state.brightness,
+        position: state.position,
+      })}`,
+      { id: device.id, state }
+    );
+    service.aedesService?.handleStateChange(device, state);
+    service.automationService?.handleStateChange(device, state);
+  }
+
+  private clearPendingState(id: string) {
+    const pending = this.pendingStates.get(id);
+    if (!pending) return;
+
+    clearTimeout(pending.timer);
+    this.pendingStates.delete(id);
+  }
+
+  /** Drops the confirmation timers of commands still waiting for one. */
+  stop() {
+    for (const id of [...this.pendingStates.keys()]) this.clearPendingState(id);
+  }
+
+  private static matchesState(
+    state: ExpectedState,
+    expected: ExpectedState
+  ): boolean {
+    if (state.on !== expected.on) return false;
+
+    // Levels are scaled to 0-255 and back, allow for rounding
+    for (const key of ["brightness", "position"] as const) {
+      const level = state[key];
+      const expectedLevel = expected[key];
+      if (level === undefined || expectedLevel === undefined) continue;
+      if (Math.abs(level - expectedLevel) > 1) return false;
+    }
+
+    return true;
+  }
+
+  private expectState(device: Device, expected: ExpectedState) {
+    const needsConfirmation =
+      this.confirmTimeout > 0 && this.observedDevices.has(device.id);
+    const fallback =
+      this.pendingStates.get(device.id)?.fallback ?? this.states[device.id];
+    this.clearPendingState(device.id);
+    this.fallbackStates.set(device.id, fallback);
+
+    if (needsConfirmation) {
+      const timer = setTimeout(
+        () => this.rollbackState(device.id),
+        this.confirmTimeout
+      );
+      this.pendingStates.set(device.id, { expected, fallback, timer });
+    }
 
+    this.setState(device, {
+      ...expected,
+      updatedAt: Date.now(),
+      source: "command",
+      pending: needsConfirmation,
+    });
+  }
+
+  private rollbackState(id: string) {
+    const pending = this.pendingStates.get(id);
     const device = this.devices[id];
-    const gatewayId = device.gatewayId;
-    const macAddress = device.macAddress;
-    const guid = device.guid;
-    const position = device.index;
-    const isOn = on;
+    this.pendingStates.delete(id);
+    if (!pending || !device) return;
 
-    const bits = Array(8).fill(0);
-    bits[4 - position] = 1;
-    if (isOn) bits[8 - position] = 1;
-    const data = parseInt(bits.join(""), 2)
-      .toString(16)
-      .toUpperCase()
-      .padStart(2, "0");
+    logger.warn(
+      `No confirmation for device ${id} within ${this.confirmTimeout}ms, rolling back`,
+      pending.expected
+    );
 
-    const reversedMac = macAddress.split(":").reverse().join("");
-    const value = `02${reversedMac}8000${data}00`;
+    if (pending.fallback) {
+      this.setState(device, { ...pending.fallback, pending: false });
+      return;
+    }
+
+    // Nothing to go back to, so the state is unknown until the device reports
+    // it, and controllers show the device as not responding meanwhile
+    service.availabilityService?.markUnreachable(
+      id,
+      "command not confirmed and no previous state"
+    );
+    this.setState(device, { ...this.states[id], pending: false, stale: true });
+  }
 
-    const topic = `cmd/${await md5(await md5(gatewayId))}`;
-    logger.debug(`Publishing MQTT command to topic: ${topic}`);
-    await service.mqttService?.publish(topic, {
+  private failState(id: string, expected: ExpectedState) {
+    const device = this.devices[id];
+    const state = this.states[id];
+    // Skip if a newer command or advertisement has replaced the expected state
+    if (
+      !device ||
+      !state ||
+      state.source !== "command" ||
+      !DeviceService.matchesState(state, expected)
+    )
+      return;
+
+    const fallback =
+      this.pendingStates.get(id)?.fallback ?? this.fallbackStates.get(id);
+    this.clearPendingState(id);
+    logger.warn(`Reverting device ${id} after failed command`);
+
+    // Without a known previous state, the opposite of the requested one is the best guess
+    this.setState(
+      device,
+      fallback
+        ? { ...fallback, pending: false }
+        : {
+            on: !expected.on,
+            updatedAt: Date.now(),
+            source: "command",
+            pending: false,
+          }
+    );
+  }
+
+  reportState(id: string, observed: ExpectedState) {
+    const device = this.devices[id];
+    if (!device) {
+      logger.warn(`Cannot report state for unknown device ${id}`);
+      return;
+    }
+
+    this.observedDevices.add(id);
+    service.availabilityService?.markSeen(id);
+    const state: DeviceState = {
+      ...observed,
+      updatedAt: Date.now(),
+      source: "ble",
+      pending: false,
+    };
+
+    const pending = this.pendingStates.get(id);
+    if (pending) {
+      if (!DeviceService.matchesState(observed, pending.expected)) {
+        // Likely an advertisement sent before the command was executed
+        logger.debug(`Unconfirmed state for device ${id}:`, observed);
+        pending.fallback = state;
+        return;
+      }
+
+      logger.debug(`Confirmed state for device ${id}:`, observed);
+      this.clearPendingState(id);
+    } else if (this.isCurrentState(id, observed)) {
+      // Scanners repeat advertisements, only changes are published
+      this.states[id] = this.withOnSince(id, state);
+      this.bleUpdatedAt[id] = state.updatedAt;
+      service.stateStoreService?.scheduleSave();
+      return;
+    }
+
+    this.setState(device, state);
+  }
+
+  /** Whether `observed` is exactly the known state, which is settled. */
+  private isCurrentState(id: string, observed: ExpectedState): boolean {
+    const state = this.states[id];
+    return (
+      !!state &&
+      !state.pending &&
+      !state.stale &&
+      state.on === observed.on &&
+      state.brightness === observed.brightness &&
+      state.position === observed.position
+    );
+  }
+
+  getByMacAddress(macAddress: string): Device[] {
+    return Object.values(this.devices).filter(
+      (device) => device.macAddress === macAddress
+    );
+  }
+
+  getByName(name: string): Device | undefined {
+    return this.devices[name];
+  }
+
+  getScene(id: string): Scene | undefined {
+    return this.scenes[id];
+  }
+
+  private isAwaitingConfirmation(id: string, expected: ExpectedState): boolean {
+    const pending = this.pendingStates.get(id);
+    return !!pending && DeviceService.matchesState(pending.expected, expected);
+  }
+
+  private createBleWrite(device: Device, value: string): PublishData {
+    return {
       command: "Control",
       function: "bleHelper.perform",
       params: [
         {
           action: "write",
-          guid: guid,
-          mac_address: macAddress,
+          guid: device.guid,
+          mac_address: device.macAddress,
           service_id: "ff80",
           char_id: "ff81",
           value: value,
@@ -221,10 +692,84 @@ class DeviceService {
       ],
       callback: "",
       raw: "",
-    });
+    };
   }
 
-  async dimmingDevice(id: string, brightness: number) {
+  private createSwitchCommand(
+    device: Device,
+    gangs: Map<number, boolean>
+  ): SwitchCommand {
+    // The high nibble selects the gangs to write, the low nibble holds their state
+    const bits = Array(8).fill(0);
+    for (const [position, isOn] of gangs) {
+      bits[4 - position] = 1;
+      if (isOn) bits[8 - position] = 1;
+    }
+    const data = parseInt(bits.join(""), 2)
+      .toString(16)
+      .toUpperCase()
+      .padStart(2, "0");
+
+    const reversedMac = device.macAddress.split(":").reverse().join("");
+    const value = `02${reversedMac}8000${data}00`;
+    const idOf = (position: number) =>
+      DeviceService.namespaced(
+        { id: device.accountId ?? "" },
+        `${device.guid}-${position}`
+      );
+
+    return {
+      key: `switch:${device.macAddress}`,
+      deviceIds: [...gangs.keys()].map(idOf),
+      gatewayId: device.gatewayId,
+      accountId: device.accountId,
+      data: this.createBleWrite(device, value),
+      gangs,
+      // Gangs of the same panel are combined into a single write
+      merge: (queued) =>
+        this.createSwitchCommand(
+          device,
+          new Map([...(queued as SwitchCommand).gangs, ...gangs])
+        ),
+      retry: () => {
+        const unconfirmed = new Map(
+          [...gangs].filter(([position, on]) =>
+            this.isAwaitingConfirmation(idOf(position), { on })
+          )
+        );
+
+        return unconfirmed.size
+          ? this.createSwitchCommand(device, unconfirmed)
+          : null;
+      },
+      onFailure: () => {
+        for (const [position, on] of gangs)
+          this.failState(idOf(position), { on });
+      },
+    };
+  }
+
+  switchDevice(id: string, on: boolean) {
+    logger.debug(`Switching device ${id} to ${on ? "ON" : "OFF"}`);
+
+    if (!this.devices[id]) throw new Error(`Device with id ${id} not found`);
+
+    // Fan relays are gangs of a switch panel
+    if (
+      this.devices[id].type !== DeviceType.SWITCH &&
+      this.devices[id].type !== DeviceType.FAN
+    )
+      throw new Error(`Device with id ${id} is not a switch`);
+
+    const device = this.devices[id];
+
+    this.expectState(device, { on });
+    service.commandService?.enqueue(
+      this.createSwitchCommand(device, new Map([[device.index, on]]))
+    );
+  }
+
+  dimmingDevice(id: string, brightness: number) {
     logger.debug(`Dimming device ${id} to brightness ${brightness}`);
 
     if (!this.devices[id]) throw new Error(`Device with id ${id} not found`);
@@ -233,36 +778,131 @@ class DeviceService {
       throw new Error(`Device with id ${id} is not a dimming device`);
 
     const device = this.devices[id];
-    const gatewayId = device.gatewayId;
     const macAddress = device.macAddress;
-    const guid = device.guid;
 
     const scaledBrightness = Math.round((brightness / 100) * 255);
     const data = scaledBrightness.toString(16).padStart(2, "0").toUpperCase();
     const reversedMac = macAddress.split(":").reverse().join("");
     const value = `02${reversedMac}8900${data}`;
 
-    const topic = `cmd/${await md5(await md5(gatewayId))}`;
-    logger.debug(`Publishing MQTT command to topic: ${topic}`);
-    await service.mqttService?.publish(topic, {
-      command: "Control",
-      function: "bleHelper.perform",
-      params: [
-        {
-          action: "write",
-          guid: guid,
-          mac_address: macAddress,
-          service_id: "ff80",
-          char_id: "ff81",
-          value: value,
-        },
-      ],
-      callback: "",
-      raw: "",
-    });
+    const expected = { on: brightness > 0, brightness };
+    this.expectState(device, expected);
+
+    const command: Command = {
+      key: device.id,
+      deviceIds: [device.id],
+      gatewayId: device.gatewayId,
+      accountId: device.accountId,
+      data: this.createBleWrite(device, value),
+      // Slider drags send bursts of brightness values, only the last one matters
+      debounce: true,
+      retry: () =>
+        this.isAwaitingConfirmation(device.id, expected) ? command : null,
+      onFailure: () => this.failState(device.id, expected),
+    };
+    service.commandService?.enqueue(command);
+  }
+
+  curtainDevice(id: string, position: number) {
+    logger.debug(`Moving curtain ${id} to position ${position}`);
+
+    if (!this.devices[id]) throw new Error(`Device with id ${id} not found`);
+
+    if (this.devices[id].type !== DeviceType.CURTAIN)
+      throw new Error(`Device with id ${id} is not a curtain`);
+
+    if (!this.curtainControl)
+      throw new Error(
+        `Curtain control is experimental, enable it to move curtain ${id}`
+      );
+
+    const device = this.devices[id];
+
+    // Same layout as the dimming write, with an opcode not confirmed on real motors
+    const scaledPosition = Math.round((position / 100) * 255);
+    const data = scaledPosition.toString(16).padStart(2, "0").toUpperCase();
+    const reversedMac = device.macAddress.split(":").reverse().join("");
+    const value = `02${reversedMac}8A00${data}`;
+
+    const expected = { on: position > 0, position };
+    this.expectState(device, expected);
+
+    const command: Command = {
+      key: device.id,
+      deviceIds: [device.id],
+      gatewayId: device.gatewayId,
+      accountId: device.accountId,
+      data: this.createBleWrite(device, value),
+      // Position sliders send bursts of values like brightness sliders
+      debounce: true,
+      retry: () =>
+        this.isAwaitingConfirmation(device.id, expected) ? command : null,
+      onFailure: () => this.failState(device.id, expected),
+    };
+    service.commandService?.enqueue(command);
+  }
+
+  // -- Scene Handling --
+
+  runScene(id: string) {
+    const scene = this.scenes[id];
+    if (!scene) throw new Error(`Scene with id ${id} not found`);
+
+    logger.info(`Running scene ${id} (${scene.name})`);
+
+    for (const action of scene.actions) {
+      if (!this.devices[action.deviceId]) {
+        logger.warn(
+          `Skipping unknown device ${action.deviceId} in scene ${id}`
+        );
+        continue;
+      }
+
+      try {
+        this.runAction(action);
+      } catch (error) {
+        logger.error(
+          `Failed to run action for ${action.deviceId} in scene ${id}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /** Turns a device on at `level` or off, whatever its type. */
+  runAction(action: SceneAction) {
+    const device = this.devices[action.deviceId];
+    if (!device) throw new Error(`Device with id ${action.deviceId} not found`);
+
+    const level = action.on ? action.level ?? 100 : 0;
+    switch (device.type) {
+      case DeviceType.SWITCH:
+      case DeviceType.FAN:
+        this.switchDevice(device.id, action.on);
+        break;
+      case DeviceType.DIMMING:
+        this.dimmingDevice(device.id, level);
+        break;
+      case DeviceType.CURTAIN:
+        this.curtainDevice(device.id, level);
+        break;
+    }
   }
 }
 
 export default DeviceService;
-export { DeviceType };
-export type { Device };
+export { DeviceType, deviceTypeNames };
+export type {
+  Device,
+  DeviceAccount,
+  DeviceChanges,
+  DeviceState,
+  DeviceTypeName,
+  ExpectedState,
+  ProfileScene,
+  ProfileSceneDevice,
+  Scene,
+  SceneAction,
+  SceneChanges,
+  StateSource,
+};
@@ -0,0 +1,42 @@
+type BridgeEventType = "homebridge" | "cloud" | "ble" | "state";
+
+interface BridgeEvent {
+  type: BridgeEventType;
+  time: number;
+  summary: string;
+  data?: unknown;
+}
+
+type BridgeEventListener = (event: BridgeEvent) => void;
+
+/**
+ * Collects what the bridge is doing (Homebridge commands, cloud publishes,
+ * BLE packets and state changes) for the live feed of the dashboard.
+ */
+class EventService {
+  recent: BridgeEvent[] = [];
+  private listeners: Set<BridgeEventListener> = new Set();
+  private historySize: number;
+
+  constructor(historySize = 100) {
+    this.historySize = historySize;
+  }
+
+  emit(type: BridgeEventType, summary: string, data?: unknown) {
+    const event: BridgeEvent = { type, time: Date.now(), summary, data };
+
+    this.recent.push(event);
+    if (this.recent.length > this.historySize) this.recent.shift();
+
+    for (const listener of this.listeners) listener(event);
+  }
+
+  /** Returns a function that removes the listener again. */
+  subscribe(listener: BridgeEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
+
+export default EventService;
+export type { BridgeEvent, BridgeEventListener, BridgeEventType };
@@ -0,0 +1,164 @@
+import service from "./service.ts";
+
+type Labels = Record<string, string>;
+
+const counters = {
+  yoswit_commands_total: "Commands sent to gateways by device and type",
+  yoswit_command_failures_total:
+    "Commands that failed, timed out or stayed unconfirmed by device, type and reason",
+  yoswit_ble_packets_total: "BLE advertisements received by MAC address",
+  yoswit_profile_reloads_total: "Device profile reloads by account and outcome",
+} as const;
+
+type CounterName = keyof typeof counters;
+
+interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replaceAll("\\", "\\\\")
+    .replaceAll('"', '\\"')
+    .replaceAll("\n", "\\n");
+}
+
+function formatSample(name: string, { labels, value }: Sample): string {
+  const pairs = Object.entries(labels).map(
+    ([key, label]) => `${key}="${escapeLabel(label)}"`
+  );
+  return `${name}${pairs.length ? `{${pairs.join(",")}}` : ""} ${value}`;
+}
+
+function formatMetric(
+  name: string,
+  type: "counter" | "gauge",
+  help: string,
+  samples: Sample[]
+): string {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...samples.map((sample) => formatSample(name, sample)),
+  ].join("\n");
+}
+
+/**
+ * Counts what the bridge does and renders it with the current connection and
+ * BLE state in the Prometheus text format.
+ */
+class MetricsService {
+  private samples: Map<CounterName, Map<string, Sample>> = new Map();
+
+  increment(name: CounterName, labels: Labels = {}, by = 1) {
+    if (!this.samples.has(name)) this.samples.set(name, new Map());
+    const samples = this.samples.get(name)!;
+
+    const key = JSON.stringify(labels);
+    const sample = samples.get(key) ?? { labels, value: 0 };
+    sample.value += by;
+    samples.set(key, sample);
+  }
+
+  private gauges(): [string, "counter" | "gauge", string, Sample[]][] {
+    const accounts = [...service.accountServices.values()];
+    const scanners = [...(service.scannerService?.scanners.values() ?? [])];
+    const now = Date.now();
+
+    return [
+      [
+        "yoswit_cloud_mqtt_connected",
+        "gauge",
+        "Whether the cloud MQTT connection of the account is up",
+        accounts.map((account) => ({
+          labels: { account: account.id },
+          value: account.mqttService?.client.connected ? 1 : 0,
+        })),
+      ],
+      [
+        "yoswit_cloud_mqtt_reconnects_total",
+        "counter",
+        "Reconnect attempts of the cloud MQTT connection",
+        accounts.map((account) => ({
+          labels: { account: account.id },
+          value: account.mqttService?.reconnects ?? 0,
+        })),
+      ],
+      [
+        "yoswit_broker_clients",
+        "gauge",
+        "Clients connected to the local MQTT broker",
+        [
+          {
+            labels: {},
+            value: service.aedesService?.aedes.connectedClients ?? 0,
+          },
+        ],
+      ],
+      [
+        "yoswit_ble_scanner_up",
+        "gauge",
+        "Whether the BLE scanner reported within the scanner timeout",
+        scanners.map((scanner) => ({
+          labels: { scanner: scanner.id },
+          value: scanner.alive ? 1 : 0,
+        })),
+      ],
+      [
+        "yoswit_ble_duplicates_total",
+        "counter",
+        "BLE advertisements dropped because another scanner reported them first",
+        scanners.map((scanner) => ({
+          labels: { scanner: scanner.id },
+          value: scanner.duplicates,
+        })),
+      ],
+      [
+        "yoswit_ble_scanner_last_seen_seconds",
+        "gauge",
+        "Seconds since the BLE scanner last reported",
+        scanners.map((scanner) => ({
+          labels: { scanner: scanner.id },
+          value: Math.round((now - scanner.lastSeenAt) / 1000),
+        })),
+      ],
+      [
+        "yoswit_device_online",
+        "gauge",
+        "Whether the device was seen within the availability timeout",
+        Object.keys(service.deviceService?.devices ?? {}).map((device) => ({
+          labels: { device },
+          value:
+            service.availabilityService?.isOnline(device) === false ? 0 : 1,
+        })),
+      ],
+      [
+        "yoswit_ble_update_age_seconds",
+        "gauge",
+        "Seconds since a BLE advertisement last reported the device state",
+        Object.entries(service.deviceService?.bleUpdatedAt ?? {}).map(
+          ([device, updatedAt]) => ({
+            labels: { device },
+            value: Math.round((now - updatedAt) / 1000),
+          })
+        ),
+      ],
+    ];
+  }
+
+  render(): string {
+    const metrics = Object.entries(counters).map(([name, help]) =>
+      formatMetric(name, "counter", help, [
+        ...(this.samples.get(name as CounterName)?.values() ?? []),
+      ])
+    );
+    for (const [name, type, help, samples] of this.gauges())
+      metrics.push(formatMetric(name, type, help, samples));
+
+    return metrics.join("\n") + "\n";
+  }
+}
+
+export default MetricsService;
+export type { CounterName, Labels };
@@ -2,6 +2,7 @@ import mqtt from "mqtt";
 import { nanoid } from "@sitnik/nanoid";
 import { md5 } from "../utils.ts";
 import { Logger } from "../logger.ts";
+import service from "./service.ts";
 
 const logger = Logger.create("MqttService");
 
@@ -11,8 +12,24 @@ interface PublishData {
   [key: string]: unknown;
 }
 
+type ResponseOutcome = "success" | "failure" | "timeout";
+
+interface CommandResponse {
+  outcome: ResponseOutcome;
+  detail?: string;
+}
+
 class MqttService {
   client: mqtt.MqttClient;
+  reconnects = 0;
+  private subscriptions: Set<string> = new Set();
+  private pendingResponses: Map<
+    string,
+    {
+      resolve: (response: CommandResponse) => void;
+      timer: ReturnType<typeof setTimeout>;
+    }
+  > = new Map();
 
   constructor(
     host: string,
@@ -45,13 +62,104 @@ class MqttService {
     });
 
     this.client.on("reconnect", () => {
+      this.reconnects++;
       logger.info("Reconnecting to MQTT broker...");
     });
+
+    this.client.on("message", (topic, payload) =>
+      this.handleMessage(topic, payload.toString())
+    );
+  }
+
+  async close() {
+    for (const [id, pending] of this.pendingResponses) {
+      clearTimeout(pending.timer);
+      pending.resolve({ outcome: "timeout", detail: "Connection closed" });
+      this.pendingResponses.delete(id);
+    }
+
+    await this.client.endAsync();
+  }
+
+  subscribe(topic: string) {
+    if (this.subscriptions.has(topic)) return;
+    this.subscriptions.add(topic);
+
+    logger.info(`Subscribing to topic ${topic}`);
+    this.client.subscribe(topic, { qos: 0 }, (error) => {
+      if (error) {
+        logger.error(`Failed to subscribe to ${topic}:`, error);
+        this.subscriptions.delete(topic);
+      }
+    });
   }
 
-  async publish(topic: string, data: PublishData) {
+  // -- Responses --
+
+  private handleMessage(topic: string, payloadString: string) {
+    logger.debug(`Message on topic ${topic}: ${payloadString}`);
+
+    // deno-lint-ignore no-explicit-any
+    let payload: any;
+    try {
+      payload = JSON.parse(payloadString);
+    } catch (_e) {
+      logger.warn(`Invalid JSON message on topic ${topic}`);
+      return;
+    }
+
+    // Gateways echo the request id back in the callback field
+    const data = payload?.data ?? payload;
+    const id = [data?.callback, data?.request_id, payload?.id].find(
+      (candidate) =>
+        typeof candidate === "string" && this.pendingResponses.has(candidate)
+    );
+    if (!id) return;
+
+    const failed =
+      data.success === false ||
+      data.error !== undefined ||
+      ["error", "fail", "failed"].includes(String(data.status).toLowerCase());
+    const detail =
+      data.error ?? data.message ?? (data.status as string | undefined);
+
+    const pending = this.pendingResponses.get(id)!;
+    this.pendingResponses.delete(id);
+    clearTimeout(pending.timer);
+
+    pending.resolve({
+      outcome: failed ? "failure" : "success",
+      detail: detail === undefined ? undefined : String(detail),
+    });
+  }
+
+  /**
+   * Publishes a command and resolves with the gateway's response on
+   * `responseTopic`, correlated by the generated message id.
+   */
+  async request(
+    topic: string,
+    responseTopic: string,
+    data: PublishData,
+    timeout: number
+  ): Promise<CommandResponse> {
+    this.subscribe(responseTopic);
+
     const id = nanoid(21);
+    const response = new Promise<CommandResponse>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingResponses.delete(id);
+        resolve({ outcome: "timeout" });
+      }, timeout);
+
+      this.pendingResponses.set(id, { resolve, timer });
+    });
 
+    await this.publish(topic, { ...data, callback: id }, id);
+    return response;
+  }
+
+  async publish(topic: string, data: PublishData, id = nanoid(21)) {
     if (!data.user_id) data.user_id = "";
     if (!data.from) data.from = "";
 
@@ -75,6 +183,12 @@ class MqttService {
 
     logger.debug(`Publishing to topic ${topic}`);
     logger.debug("Payload:", payload);
+    const params = data.params as { value?: string }[] | undefined;
+    service.eventService?.emit(
+      "cloud",
+      `${data.command ?? "Publish"} ${params?.[0]?.value ?? ""} to ${topic}`,
+      data
+    );
 
     this.client.publish(
       topic,
@@ -95,3 +209,4 @@ class MqttService {
 }
 
 export default MqttService;
+export type { CommandResponse, PublishData, ResponseOutcome };
@@ -0,0 +1,197 @@
+import { Logger } from "../logger.ts";
+import {
+  Device,
+  DeviceType,
+  DeviceTypeName,
+  deviceTypeNames,
+} from "./deviceService.ts";
+
+const logger = Logger.create("OverrideService");
+
+const homeKitServices = ["Lightbulb", "Switch", "Outlet", "Fan"] as const;
+type HomeKitService = (typeof homeKitServices)[number];
+
+interface DeviceMatcher {
+  id?: string;
+  name?: string; // regular expression
+  room?: string;
+  type?: DeviceTypeName;
+}
+
+interface DeviceOverride {
+  name?: string;
+  room?: string;
+  service?: HomeKitService;
+}
+
+interface Overrides {
+  // Only devices matching one of these are published, all when empty
+  include?: DeviceMatcher[];
+  exclude?: DeviceMatcher[];
+  // Homebridge service_name, with `{name}`, `{room}`, `{home}` and `{id}` placeholders
+  serviceNameFormat?: string;
+  devices?: Record<string, DeviceOverride>;
+}
+
+const defaultOverrides: Overrides = {
+  // Switches named with V1 or V2 are likely the internal on/off switch of a dimming device
+  exclude: [{ type: "switch", name: "V1|V2" }],
+};
+
+class OverrideError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OverrideError";
+  }
+}
+
+class OverrideService {
+  overrides: Overrides;
+
+  constructor(overrides: Overrides = {}) {
+    this.overrides = { ...defaultOverrides, ...overrides };
+    OverrideService.validate(this.overrides);
+  }
+
+  static async load(path: string): Promise<OverrideService> {
+    let content: string;
+    try {
+      content = await Deno.readTextFile(path);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+
+      logger.debug(`No device overrides at ${path}, using defaults`);
+      return new OverrideService();
+    }
+
+    let overrides: Overrides;
+    try {
+      overrides = JSON.parse(content);
+    } catch (error) {
+      throw new OverrideError(`Invalid JSON in ${path}: ${error}`);
+    }
+
+    logger.info(`Loaded device overrides from ${path}`);
+    return new OverrideService(overrides);
+  }
+
+  private static validate(overrides: Overrides) {
+    for (const matcher of [
+      ...(overrides.include ?? []),
+      ...(overrides.exclude ?? []),
+    ]) {
+      if (matcher.name !== undefined)
+        try {
+          new RegExp(matcher.name);
+        } catch {
+          throw new OverrideError(`Invalid name pattern: ${matcher.name}`);
+        }
+
+      if (
+        matcher.type !== undefined &&
+        !Object.values(deviceTypeNames).includes(matcher.type)
+      )
+        throw new OverrideError(`Unknown device type: ${matcher.type}`);
+    }
+
+    for (const [id, override] of Object.entries(overrides.devices ?? {}))
+      if (
+        override.service !== undefined &&
+        !homeKitServices.includes(override.service)
+      )
+        throw new OverrideError(
+          `Unknown HomeKit service for device ${id}: ${override.service}`
+        );
+  }
+
+  private static matches(device: Device, matcher: DeviceMatcher): boolean {
+    if (matcher.id !== undefined && matcher.id !== device.id) return false;
+    if (
+      matcher.type !== undefined &&
+      matcher.type !== deviceTypeNames[device.type]
+    )
+      return false;
+    if (
+      matcher.room !== undefined &&
+      matcher.room.toLowerCase() !== device.roomName?.toLowerCase()
+    )
+      return false;
+    if (
+      matcher.name !== undefined &&
+      !new RegExp(matcher.name).test(device.name ?? "")
+    )
+      return false;
+
+    return true;
+  }
+
+  isIncluded(device: Device): boolean {
+    const { include = [], exclude = [] } = this.overrides;
+
+    if (
+      include.length &&
+      !include.some((matcher) => OverrideService.matches(device, matcher))
+    )
+      return false;
+
+    return !exclude.some((matcher) => OverrideService.matches(device, matcher));
+  }
+
+  apply(device: Device): Device {
+    const override = this.overrides.devices?.[device.id];
+    if (!override) return device;
+
+    return {
+      ...device,
+      name: override.name ?? device.name,
+      roomName: override.room ?? device.roomName,
+    };
+  }
+
+  homeKitServiceOf(device: Device): HomeKitService | undefined {
+    const homeKitService = this.overrides.devices?.[device.id]?.service;
+    if (!homeKitService) return undefined;
+
+    // Only a Lightbulb can carry the brightness of a dimming device
+    if (device.type === DeviceType.DIMMING && homeKitService !== "Lightbulb") {
+      logger.warn(
+        `Ignoring ${homeKitService} service for dimming device ${device.id}`
+      );
+      return undefined;
+    }
+
+    return homeKitService;
+  }
+
+  /** Appends the home to a name, which only devices of accounts have. */
+  static withHome(name: string, home?: string): string {
+    return home ? `${name} (${home})` : name;
+  }
+
+  serviceNameOf(
+    device: Pick<Device, "id" | "name" | "roomName" | "home">
+  ): string {
+    const name = device.name || "Unnamed Device";
+    const format = this.overrides.serviceNameFormat;
+    if (!format) {
+      // Devices of several accounts may share their name and room
+      const place = [device.roomName, device.home].filter(Boolean).join(", ");
+      return place ? `${name} (${place})` : name;
+    }
+
+    return (
+      format
+        .replaceAll("{name}", name)
+        .replaceAll("{room}", device.roomName ?? "")
+        .replaceAll("{home}", device.home ?? "")
+        .replaceAll("{id}", device.id)
+        // Drop the brackets left behind by a missing room or home
+        .replace(/\s*(\(\s*\)|\[\s*\])/g, "")
+        .trim()
+    );
+  }
+}
+
+export default OverrideService;
+export { OverrideError };
+export type { DeviceMatcher, DeviceOverride, HomeKitService, Overrides };
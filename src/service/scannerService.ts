@@ -0,0 +1,116 @@
+import { Logger } from "../logger.ts";
+import service from "./service.ts";
+import type { BleSighting } from "../bleDecoder.ts";
+
+const logger = Logger.create("ScannerService");
+
+interface Scanner {
+  id: string;
+  lastSeenAt: number;
+  packets: number; // sightings received, duplicates included
+  duplicates: number;
+  rssi?: number; // of the last sighting that carried one
+  alive: boolean;
+}
+
+interface ScannerServiceOptions {
+  dedupWindow: number; // milliseconds in which other scanners' sightings are duplicates
+  timeout: number; // milliseconds of silence before a scanner is reported, 0 never
+}
+
+interface LastSighting {
+  scanner: string;
+  data: string;
+  receivedAt: number;
+}
+
+/**
+ * Keeps track of the BLE scanners reporting to the broker, drops the same
+ * advertisement seen by several of them and warns when one goes silent.
+ */
+class ScannerService {
+  options: ScannerServiceOptions;
+  scanners: Map<string, Scanner> = new Map();
+  private lastSightings: Map<string, LastSighting> = new Map();
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: ScannerServiceOptions) {
+    this.options = options;
+  }
+
+  start() {
+    if (!this.options.timeout || this.checkTimer !== null) return;
+
+    this.checkTimer = setInterval(
+      () => this.checkScanners(),
+      Math.max(this.options.timeout / 2, 1000)
+    );
+  }
+
+  stop() {
+    if (this.checkTimer !== null) clearInterval(this.checkTimer);
+    this.checkTimer = null;
+  }
+
+  /**
+   * Records a sighting for the health of its scanner, returning false when
+   * another scanner already reported the same advertisement.
+   */
+  accept(sighting: BleSighting): boolean {
+    const now = Date.now();
+    this.recordScanner(sighting, now);
+
+    const last = this.lastSightings.get(sighting.macAddress);
+    if (
+      last &&
+      last.scanner !== sighting.scanner &&
+      last.data === sighting.data &&
+      now - last.receivedAt <= this.options.dedupWindow
+    ) {
+      this.scanners.get(sighting.scanner)!.duplicates++;
+      return false;
+    }
+
+    this.lastSightings.set(sighting.macAddress, {
+      scanner: sighting.scanner,
+      data: sighting.data,
+      receivedAt: now,
+    });
+    return true;
+  }
+
+  private recordScanner({ scanner: id, rssi }: BleSighting, now: number) {
+    let scanner = this.scanners.get(id);
+    if (!scanner) {
+      logger.info(`BLE scanner ${id} started reporting`);
+      scanner = { id, lastSeenAt: now, packets: 0, duplicates: 0, alive: true };
+      this.scanners.set(id, scanner);
+    } else if (!scanner.alive) {
+      logger.info(`BLE scanner ${id} is reporting again`);
+      scanner.alive = true;
+    }
+
+    scanner.lastSeenAt = now;
+    scanner.packets++;
+    if (rssi !== undefined) scanner.rssi = rssi;
+  }
+
+  checkScanners() {
+    const now = Date.now();
+
+    for (const scanner of this.scanners.values()) {
+      if (!scanner.alive || now - scanner.lastSeenAt <= this.options.timeout)
+        continue;
+
+      scanner.alive = false;
+      const summary = `BLE scanner ${scanner.id} silent since ${new Date(
+        scanner.lastSeenAt
+      ).toISOString()}`;
+      logger.warn(summary);
+      service.eventService?.emit("ble", summary, { scanner: scanner.id });
+    }
+  }
+}
+
+export default ScannerService;
+export type { Scanner, ScannerServiceOptions };
@@ -1,11 +1,32 @@
+import AccountService from "./accountService.ts";
 import AedesService from "./aedesService.ts";
+import AutomationService from "./automationService.ts";
+import AvailabilityService from "./availabilityService.ts";
+import ApiService from "./apiService.ts";
+import CacheService from "./cacheService.ts";
+import CommandService from "./commandService.ts";
 import DeviceService from "./deviceService.ts";
-import MqttService from "./mqttService.ts";
+import EventService from "./eventService.ts";
+import MetricsService from "./metricsService.ts";
+import OverrideService from "./overrideService.ts";
+import ScannerService from "./scannerService.ts";
+import StateStoreService from "./stateStoreService.ts";
 
 class Service {
+  cacheService: CacheService | null = null;
+  // Keyed by account id, the only account of a single account setup has an empty id
+  accountServices: Map<string, AccountService> = new Map();
   deviceService: DeviceService | null = null;
-  mqttService: MqttService | null = null;
+  overrideService: OverrideService | null = null;
+  commandService: CommandService | null = null;
   aedesService: AedesService | null = null;
+  apiService: ApiService | null = null;
+  eventService: EventService | null = null;
+  metricsService: MetricsService | null = null;
+  stateStoreService: StateStoreService | null = null;
+  scannerService: ScannerService | null = null;
+  availabilityService: AvailabilityService | null = null;
+  automationService: AutomationService | null = null;
 }
 
 const service = new Service();
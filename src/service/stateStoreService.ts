@@ -0,0 +1,84 @@
+import { Logger } from "../logger.ts";
+import service from "./service.ts";
+import type { BleCacheEntry } from "./aedesService.ts";
+import type { DeviceState } from "./deviceService.ts";
+
+const logger = Logger.create("StateStoreService");
+
+interface StoredState {
+  savedAt: number;
+  states: Record<string, DeviceState>;
+  bleCache: Record<string, BleCacheEntry>;
+}
+
+interface StateStoreServiceOptions {
+  maxAge: number; // milliseconds after which restored entries are stale, 0 never
+  saveDelay?: number; // milliseconds to collect changes before writing them
+}
+
+/**
+ * Persists the device states and the BLE cache in the data directory, so that
+ * Homebridge gets the last known states right after a restart.
+ */
+class StateStoreService {
+  options: StateStoreServiceOptions;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: StateStoreServiceOptions) {
+    this.options = options;
+  }
+
+  /** Restores the persisted state, call it once the devices are known. */
+  async load() {
+    const stored = await service.cacheService?.read<StoredState>("state");
+    if (!stored) return;
+
+    const restored =
+      service.deviceService?.restoreStates(
+        stored.states ?? {},
+        this.options.maxAge
+      ) ?? 0;
+    service.aedesService?.restoreBleCache(
+      stored.bleCache ?? {},
+      this.options.maxAge
+    );
+
+    logger.info(
+      `Restored ${restored} device states saved at ${new Date(
+        stored.savedAt
+      ).toISOString()}`
+    );
+  }
+
+  scheduleSave() {
+    if (this.saveTimer !== null) return;
+
+    // States change in bursts, so they are written at most once per delay
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.options.saveDelay ?? 5000);
+  }
+
+  async save() {
+    const stored: StoredState = {
+      savedAt: Date.now(),
+      states: service.deviceService?.states ?? {},
+      bleCache: service.aedesService?.bleCache ?? {},
+    };
+
+    await service.cacheService?.write("state", stored);
+  }
+
+  /** Writes pending changes immediately. */
+  async stop() {
+    if (this.saveTimer === null) return;
+
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+}
+
+export default StateStoreService;
+export type { StateStoreServiceOptions, StoredState };
@@ -0,0 +1,81 @@
+// Sunrise and sunset from the NOAA solar position approximations, accurate to
+// about a minute, so that sun triggers work without an internet connection
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const J0 = 0.0009;
+const RAD = Math.PI / 180;
+const OBLIQUITY = 23.4397 * RAD;
+// Altitude of the sun's center at sunrise, refraction and its radius included
+const SUNRISE_ALTITUDE = -0.833 * RAD;
+
+interface SunTimes {
+  sunrise: Date | null; // null during polar day or night
+  sunset: Date | null;
+}
+
+function toDays(date: Date): number {
+  return date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+}
+
+function fromJulian(julian: number): Date {
+  return new Date((julian + 0.5 - J1970) * DAY_MS);
+}
+
+function approxTransit(hourAngle: number, lw: number, cycle: number): number {
+  return J0 + (hourAngle + lw) / (2 * Math.PI) + cycle;
+}
+
+function solarTransit(ds: number, anomaly: number, longitude: number): number {
+  return (
+    J2000 + ds + 0.0053 * Math.sin(anomaly) - 0.0069 * Math.sin(2 * longitude)
+  );
+}
+
+/** Sunrise and sunset on the local calendar day of `date`. */
+function sunTimes(date: Date, latitude: number, longitude: number): SunTimes {
+  const noon = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    12
+  );
+  const lw = -longitude * RAD;
+  const phi = latitude * RAD;
+
+  const cycle = Math.round(toDays(noon) - J0 - lw / (2 * Math.PI));
+  const ds = approxTransit(0, lw, cycle);
+  const anomaly = RAD * (357.5291 + 0.98560028 * ds);
+  const center =
+    RAD *
+    (1.9148 * Math.sin(anomaly) +
+      0.02 * Math.sin(2 * anomaly) +
+      0.0003 * Math.sin(3 * anomaly));
+  const eclipticLongitude = anomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(
+    Math.sin(OBLIQUITY) * Math.sin(eclipticLongitude)
+  );
+  const transit = solarTransit(ds, anomaly, eclipticLongitude);
+
+  const cosHourAngle =
+    (Math.sin(SUNRISE_ALTITUDE) - Math.sin(phi) * Math.sin(declination)) /
+    (Math.cos(phi) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1)
+    return { sunrise: null, sunset: null };
+
+  const hourAngle = Math.acos(cosHourAngle);
+  const sunset = solarTransit(
+    approxTransit(hourAngle, lw, cycle),
+    anomaly,
+    eclipticLongitude
+  );
+
+  return {
+    sunrise: fromJulian(transit - (sunset - transit)),
+    sunset: fromJulian(sunset),
+  };
+}
+
+export { sunTimes };
+export type { SunTimes };
@@ -11,4 +11,18 @@ async function md5(input: string): Promise<string> {
   return hash;
 }
 
-export { md5 };
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Compares secrets without leaking the position of the first difference. */
+function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) diff |= left[i] ^ (right[i] ?? 0);
+  return diff === 0;
+}
+
+export { md5, sleep, timingSafeEqual };
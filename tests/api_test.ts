@@ -0,0 +1,196 @@
+import { assertEquals } from "@std/assert";
+import { md5 } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import ApiService from "../src/service/apiService.ts";
+import EventService from "../src/service/eventService.ts";
+import MetricsService from "../src/service/metricsService.ts";
+import { startBridge } from "./harness/bridge.ts";
+import { DIMMER_GUID, GATEWAY_ID, SWITCH_GUID } from "./harness/fixtures.ts";
+import { getFreePort, waitFor } from "./harness/utils.ts";
+
+const TOKEN = "test-token";
+
+async function startApi() {
+  const port = await getFreePort();
+  const api = new ApiService({ port, host: "127.0.0.1", token: TOKEN });
+  service.eventService = new EventService();
+  service.metricsService = new MetricsService();
+  api.start();
+
+  const request = async (path: string, init: RequestInit = {}) => {
+    const resp = await fetch(`http://127.0.0.1:${port}${path}`, {
+      ...init,
+      headers: { authorization: `Bearer ${TOKEN}`, ...init.headers },
+    });
+    return { status: resp.status, body: await resp.json() };
+  };
+  const stop = async () => {
+    await api.stop();
+    service.eventService = null;
+    service.metricsService = null;
+  };
+
+  return { api, port, request, stop };
+}
+
+Deno.test("requires the bearer token", async () => {
+  const bridge = await startBridge();
+  const { request, stop } = await startApi();
+
+  try {
+    const denied = await request("/devices", {
+      headers: { authorization: "Bearer wrong" },
+    });
+    assertEquals(denied.status, 401);
+
+    // The OpenAPI description stays public
+    const spec = await request("/openapi.json", { headers: {} });
+    assertEquals(spec.status, 200);
+    assertEquals(Object.keys(spec.body.paths), [
+      "/status",
+      "/events",
+      "/metrics",
+      "/automations",
+      "/devices",
+      "/devices/{id}",
+    ]);
+  } finally {
+    await stop();
+    await bridge.stop();
+  }
+});
+
+Deno.test("lists devices and the bridge status", async () => {
+  const bridge = await startBridge();
+  const { request, stop } = await startApi();
+
+  try {
+    const devices = await request("/devices");
+    assertEquals(devices.status, 200);
+    assertEquals(Object.keys(devices.body).sort(), [
+      `${DIMMER_GUID}-0`,
+      `${SWITCH_GUID}-1`,
+      `${SWITCH_GUID}-2`,
+    ]);
+
+    const dimmer = await request(`/devices/${DIMMER_GUID}-0`);
+    assertEquals(
+      [dimmer.body.name, dimmer.body.type, dimmer.body.state],
+      ["Bedside", "dimming", null]
+    );
+    assertEquals((await request("/devices/unknown")).status, 404);
+
+    const status = await request("/status");
+    assertEquals(status.body.accounts, [{ id: "", connected: true }]);
+    assertEquals(status.body.broker.running, true);
+    assertEquals(status.body.scanners, []);
+    assertEquals(status.body.devices, 3);
+  } finally {
+    await stop();
+    await bridge.stop();
+  }
+});
+
+Deno.test("controls devices", async () => {
+  const bridge = await startBridge();
+  const { request, stop } = await startApi();
+  const topic = `cmd/${await md5(await md5(GATEWAY_ID))}`;
+
+  try {
+    const invalid = await request(`/devices/${DIMMER_GUID}-0`, {
+      method: "POST",
+      body: JSON.stringify({ brightness: 140 }),
+    });
+    assertEquals(invalid.status, 400);
+
+    const dimmer = await request(`/devices/${DIMMER_GUID}-0`, {
+      method: "POST",
+      body: JSON.stringify({ brightness: 40 }),
+    });
+    assertEquals(dimmer.status, 202);
+    assertEquals(
+      [dimmer.body.state.brightness, dimmer.body.state.source],
+      [40, "command"]
+    );
+
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 1);
+  } finally {
+    await stop();
+    await bridge.stop();
+  }
+});
+
+Deno.test("streams events to the dashboard", async () => {
+  const bridge = await startBridge();
+  const { port, request, stop } = await startApi();
+
+  try {
+    const page = await fetch(`http://127.0.0.1:${port}/`);
+    assertEquals(page.headers.get("content-type"), "text/html; charset=utf-8");
+    await page.body?.cancel();
+
+    // Tokens in URLs end up in access logs, so the stream needs the header
+    const denied = await fetch(
+      `http://127.0.0.1:${port}/events?token=${TOKEN}`
+    );
+    assertEquals(denied.status, 401);
+    await denied.body?.cancel();
+
+    const events = await fetch(`http://127.0.0.1:${port}/events`, {
+      headers: { authorization: `Bearer ${TOKEN}` },
+    });
+    assertEquals(events.status, 200);
+    const reader = events
+      .body!.pipeThrough(new TextDecoderStream())
+      .getReader();
+
+    await request(`/devices/${SWITCH_GUID}-1`, {
+      method: "POST",
+      body: JSON.stringify({ on: true }),
+    });
+
+    let received = "";
+    while (!received.includes("event: cloud")) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      received += value;
+    }
+    assertEquals(received.includes("event: state"), true);
+    assertEquals(received.includes("event: cloud"), true);
+    await reader.cancel();
+  } finally {
+    await stop();
+    await bridge.stop();
+  }
+});
+
+Deno.test("exposes Prometheus metrics", async () => {
+  const bridge = await startBridge();
+  const { port, request, stop } = await startApi();
+  const topic = `cmd/${await md5(await md5(GATEWAY_ID))}`;
+
+  try {
+    await request(`/devices/${SWITCH_GUID}-1`, {
+      method: "POST",
+      body: JSON.stringify({ on: true }),
+    });
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 1);
+
+    const resp = await fetch(`http://127.0.0.1:${port}/metrics`, {
+      headers: { authorization: `Bearer ${TOKEN}` },
+    });
+    const metrics = await resp.text();
+
+    assertEquals(resp.status, 200);
+    for (const line of [
+      `yoswit_commands_total{device="${SWITCH_GUID}-1",type="switch"} 1`,
+      'yoswit_cloud_mqtt_connected{account=""} 1',
+      'yoswit_cloud_mqtt_reconnects_total{account=""} 0',
+      "yoswit_broker_clients 1",
+    ])
+      assertEquals(metrics.split("\n").includes(line), true, line);
+  } finally {
+    await stop();
+    await bridge.stop();
+  }
+});
@@ -0,0 +1,148 @@
+import { assertEquals } from "@std/assert";
+import { sleep } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import AutomationService, {
+  AutomationRule,
+} from "../src/service/automationService.ts";
+import AvailabilityService from "../src/service/availabilityService.ts";
+import DeviceService from "../src/service/deviceService.ts";
+import { createProfile, SWITCH_GUID } from "./harness/fixtures.ts";
+
+const id = `${SWITCH_GUID}-1`;
+
+Deno.test("finds the next run of weekday schedules", () => {
+  const automations = new AutomationService({ rules: [] });
+  const rule: AutomationRule = {
+    id: "morning",
+    device: id,
+    at: "07:30",
+    days: ["mon", "fri"],
+    action: "on",
+  };
+
+  // Wednesday 2024-06-19 at noon, local time
+  const from = new Date(2024, 5, 19, 12);
+  assertEquals(automations.nextRunOf(rule, from), new Date(2024, 5, 21, 7, 30));
+  assertEquals(
+    automations.nextRunOf(rule, new Date(2024, 5, 21, 7, 30)),
+    new Date(2024, 5, 24, 7, 30)
+  );
+});
+
+Deno.test("offsets sun triggers", () => {
+  const automations = new AutomationService({
+    rules: [],
+    latitude: 51.5074,
+    longitude: -0.1278,
+  });
+  const from = new Date(2024, 5, 21);
+
+  const sunset = automations.nextRunOf(
+    { id: "evening", device: id, sun: "sunset", action: "on" },
+    from
+  )!;
+  const beforeSunset = automations.nextRunOf(
+    { id: "dusk", device: id, sun: "sunset", offset: -30, action: "on" },
+    from
+  )!;
+  assertEquals(sunset.getTime() - beforeSunset.getTime(), 30 * 60 * 1000);
+});
+
+Deno.test("turns devices off after they turned on", async () => {
+  service.deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  const automations = new AutomationService({
+    rules: [{ id: "hallway", device: id, autoOff: 0.03 }],
+  });
+  service.automationService = automations;
+
+  try {
+    // A BLE advertisement of the physical button arms the timer
+    service.deviceService.reportState(id, { on: true });
+    assertEquals(typeof automations.list()[0].nextRunAt, "number");
+
+    await sleep(60);
+    assertEquals(service.deviceService.getState(id)?.on, false);
+    assertEquals(automations.list()[0].nextRunAt, null);
+    assertEquals(typeof automations.list()[0].lastRunAt, "number");
+
+    // Turning off before the timer fires disarms it
+    service.deviceService.reportState(id, { on: true });
+    service.deviceService.reportState(id, { on: false });
+    assertEquals(automations.list()[0].nextRunAt, null);
+  } finally {
+    automations.stop();
+    service.automationService = null;
+    service.deviceService = null;
+  }
+});
+
+Deno.test("turns off devices restored as on", async () => {
+  service.deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  service.deviceService.restoreStates(
+    {
+      [id]: {
+        on: true,
+        updatedAt: Date.now(),
+        onSince: Date.now(),
+        source: "ble",
+        pending: false,
+      },
+    },
+    0
+  );
+  const automations = new AutomationService({
+    rules: [{ id: "hallway", device: id, autoOff: 0.03 }],
+  });
+  service.automationService = automations;
+
+  try {
+    automations.start();
+    assertEquals(typeof automations.list()[0].nextRunAt, "number");
+
+    await sleep(60);
+    assertEquals(service.deviceService.getState(id)?.on, false);
+  } finally {
+    automations.stop();
+    service.automationService = null;
+    service.deviceService = null;
+  }
+});
+
+Deno.test("arms restored states from when they turned on", () => {
+  const now = Date.now();
+  const restored = (updatedAt: number) => ({
+    on: true,
+    updatedAt,
+    onSince: now - 10000,
+    source: "ble" as const,
+    pending: false,
+  });
+  service.deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  service.deviceService.restoreStates(
+    {
+      [id]: restored(now),
+      [`${SWITCH_GUID}-2`]: restored(now - 5000),
+    },
+    0
+  );
+  service.availabilityService = new AvailabilityService({ timeout: 2000 });
+  const automations = new AutomationService({
+    rules: [
+      { id: "hallway", device: id, autoOff: 60 },
+      { id: "porch", device: `${SWITCH_GUID}-2`, autoOff: 60 },
+    ],
+  });
+
+  try {
+    automations.start();
+    const [hallway, porch] = automations.list();
+    // Repeated advertisements do not move the on time
+    assertEquals(hallway.nextRunAt, now - 10000 + 60000);
+    // Not seen within the availability timeout, so it may be off already
+    assertEquals(porch.nextRunAt, null);
+  } finally {
+    automations.stop();
+    service.availabilityService = null;
+    service.deviceService = null;
+  }
+});
@@ -0,0 +1,97 @@
+import { assertEquals } from "@std/assert";
+import { sleep } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import AvailabilityService from "../src/service/availabilityService.ts";
+import DeviceService from "../src/service/deviceService.ts";
+import ScannerService from "../src/service/scannerService.ts";
+import { createProfile, SWITCH_GUID } from "./harness/fixtures.ts";
+
+const id = `${SWITCH_GUID}-1`;
+
+async function withServices(
+  fn: (availability: AvailabilityService) => void | Promise<void>
+) {
+  service.deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  service.availabilityService = new AvailabilityService({
+    timeout: 20,
+    failureThreshold: 2,
+    failureExpiry: 60,
+  });
+
+  try {
+    await fn(service.availabilityService);
+  } finally {
+    service.deviceService = null;
+    service.availabilityService = null;
+    service.scannerService = null;
+  }
+}
+
+Deno.test("devices go offline when silent and back online when seen", () =>
+  withServices(async (availability) => {
+    // Devices never seen are assumed online
+    availability.checkDevices();
+    assertEquals(availability.isOnline(id), true);
+
+    service.deviceService!.reportState(id, { on: true });
+    await sleep(40);
+    availability.checkDevices();
+    assertEquals(availability.isOnline(id), false);
+
+    service.deviceService!.reportState(id, { on: true });
+    assertEquals(availability.isOnline(id), true);
+  })
+);
+
+Deno.test("failed commands in a row mark devices offline", () =>
+  withServices((availability) => {
+    availability.markFailed(id, "command failed");
+    assertEquals(availability.isOnline(id), true);
+
+    availability.markFailed(id, "command failed");
+    assertEquals(availability.isOnline(id), false);
+
+    availability.markSeen(id);
+    assertEquals(availability.isOnline(id), true);
+
+    // A device seen in between starts counting again
+    availability.markFailed(id, "command failed");
+    assertEquals(availability.isOnline(id), true);
+  })
+);
+
+Deno.test("failed commands are forgotten after a while", () =>
+  withServices(async (availability) => {
+    availability.markFailed(id, "command failed");
+    availability.markFailed(id, "command failed");
+    assertEquals(availability.isOnline(id), false);
+
+    availability.checkDevices();
+    assertEquals(availability.isOnline(id), false);
+
+    await sleep(80);
+    availability.checkDevices();
+    assertEquals(availability.isOnline(id), true);
+  })
+);
+
+Deno.test("silence is ignored while no scanner is alive", () =>
+  withServices(async (availability) => {
+    service.scannerService = new ScannerService({
+      dedupWindow: 0,
+      timeout: 10,
+    });
+    service.scannerService.accept({
+      scanner: "kitchen",
+      macAddress: "aa:bb:cc:dd:ee:01",
+      data: "0000002",
+    });
+    availability.markSeen(id);
+
+    await sleep(40);
+    service.scannerService.checkScanners();
+    availability.checkDevices();
+
+    assertEquals(availability.isOnline(id), true);
+  })
+);
@@ -0,0 +1,94 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  BleDecodeError,
+  decodeBleData,
+  parseBleFrame,
+  parseScannerPayload,
+} from "../src/bleDecoder.ts";
+import {
+  decodedFrames,
+  rejectedFrames,
+  undecodableData,
+} from "./harness/bleFrames.ts";
+
+Deno.test("decodes advertisements of every model", async (t) => {
+  for (const { name, payload, type, expected } of decodedFrames)
+    await t.step(name, () => {
+      const { data } = parseBleFrame(payload);
+      assertEquals(decodeBleData(type, data), expected);
+    });
+});
+
+Deno.test("rejects malformed frames with a reason", async (t) => {
+  for (const { name, payload, reason } of rejectedFrames)
+    await t.step(name, () => {
+      const error = assertThrows(() => parseBleFrame(payload), BleDecodeError);
+      assertEquals(error.reason, reason);
+    });
+});
+
+Deno.test("rejects data lacking what the model is read from", async (t) => {
+  for (const { name, data, type, reason } of undecodableData)
+    await t.step(name, () => {
+      const error = assertThrows(
+        () => decodeBleData(type, data),
+        BleDecodeError
+      );
+      assertEquals(error.reason, reason);
+    });
+});
+
+Deno.test("normalizes the MAC address", () => {
+  assertEquals(parseBleFrame("AA:BB:CC:DD:EE:0100000E"), {
+    macAddress: "aa:bb:cc:dd:ee:01",
+    data: "00000e",
+  });
+});
+
+Deno.test("parses scanner payloads", () => {
+  assertEquals(
+    parseScannerPayload(
+      "kitchen",
+      JSON.stringify({
+        mac: "AA:BB:CC:DD:EE:01",
+        data: "0000002",
+        rssi: -60,
+        timestamp: 1700000000000,
+      })
+    ),
+    {
+      macAddress: "aa:bb:cc:dd:ee:01",
+      data: "0000002",
+      scanner: "kitchen",
+      rssi: -60,
+      timestamp: 1700000000000,
+    }
+  );
+  // Scanners on their own topic may still send legacy frames
+  assertEquals(parseScannerPayload("hall", "aa:bb:cc:dd:ee:010000002"), {
+    macAddress: "aa:bb:cc:dd:ee:01",
+    data: "0000002",
+    scanner: "hall",
+  });
+});
+
+Deno.test("rejects invalid scanner payloads", () => {
+  for (const [payload, reason] of [
+    ["{", "payload is not valid JSON"],
+    ['{"data":"0000002"}', "mac must be a string"],
+    [
+      '{"mac":"aa:bb:cc:dd:ee:01","data":"0000002","rssi":"-60"}',
+      "rssi must be a number from -127 to 20",
+    ],
+    [
+      '{"mac":"aa:bb:cc:dd:ee:01","data":"00"}',
+      "truncated data 00 (2 of at least 6 chars)",
+    ],
+  ]) {
+    const error = assertThrows(
+      () => parseScannerPayload("kitchen", payload),
+      BleDecodeError
+    );
+    assertEquals(error.reason, reason);
+  }
+});
@@ -0,0 +1,524 @@
+import { assertEquals } from "@std/assert";
+import { md5, sleep } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import AccountService from "../src/service/accountService.ts";
+import { startBridge } from "./harness/bridge.ts";
+import {
+  APP_ID,
+  createProfile,
+  createScene,
+  DIMMER_GUID,
+  DIMMER_MAC,
+  GATEWAY_ID,
+  PASSWORD,
+  SWITCH_GUID,
+  SWITCH_MAC,
+  USERNAME,
+} from "./harness/fixtures.ts";
+import { waitFor } from "./harness/utils.ts";
+
+async function commandTopic(): Promise<string> {
+  return `cmd/${await md5(await md5(GATEWAY_ID))}`;
+}
+
+function blePerform(guid: string, macAddress: string, value: string) {
+  return {
+    command: "Control",
+    function: "bleHelper.perform",
+    params: [
+      {
+        action: "write",
+        guid,
+        mac_address: macAddress.toLowerCase(),
+        service_id: "ff80",
+        char_id: "ff81",
+        value,
+      },
+    ],
+    raw: "",
+  };
+}
+
+Deno.test("publishes every device to homebridge", async () => {
+  const bridge = await startBridge();
+
+  try {
+    const added = await waitFor(() => {
+      const messages = bridge.homebridge.received("add");
+      return messages.length === 3 && messages;
+    });
+
+    assertEquals(
+      added.map(({ payload }) => [
+        payload.name,
+        payload.service_name,
+        payload.service,
+        payload.Brightness,
+      ]),
+      [
+        [`${SWITCH_GUID}-1`, "Ceiling (Living Room)", "Lightbulb", undefined],
+        [`${SWITCH_GUID}-2`, "Wall (Living Room)", "Lightbulb", undefined],
+        [`${DIMMER_GUID}-0`, "Bedside (Bedroom)", "Lightbulb", "default"],
+      ]
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("re-adds homebridge accessories of renamed devices", async () => {
+  const bridge = await startBridge();
+  const account = service.accountServices.get("")!;
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000002");
+    await waitFor(() => bridge.homebridge.received("set").length === 2);
+
+    const profile = createProfile();
+    profile.profile.profile_subdevice[0].title = "Ceiling Lamp";
+    account.applyProfile(profile);
+
+    // The accessory is replaced under its new name, with its known state
+    const [removed] = await waitFor(() => {
+      const messages = bridge.homebridge.received("remove");
+      return messages.length === 1 && messages;
+    });
+    assertEquals(removed.payload.name, `${SWITCH_GUID}-1`);
+    const added = await waitFor(() => bridge.homebridge.received("add")[3]);
+    assertEquals(
+      [added.payload.name, added.payload.service_name, added.payload.service],
+      [`${SWITCH_GUID}-1`, "Ceiling Lamp (Living Room)", "Lightbulb"]
+    );
+    const restored = await waitFor(() => bridge.homebridge.received("set")[2]);
+    assertEquals(
+      [
+        restored.payload.name,
+        restored.payload.service_name,
+        restored.payload.value,
+      ],
+      [`${SWITCH_GUID}-1`, "Ceiling Lamp (Living Room)", true]
+    );
+
+    const topics = bridge.homebridge.messages.map(({ topic }) => topic);
+    assertEquals(topics.slice(-3), [
+      "homebridge/to/remove",
+      "homebridge/to/add",
+      "homebridge/to/set",
+    ]);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("switches a gang through the gateway", async () => {
+  const bridge = await startBridge();
+  const topic = await commandTopic();
+
+  try {
+    await bridge.homebridge.set(`${SWITCH_GUID}-2`, "On", true);
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 1);
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", false);
+
+    const commands = await waitFor(() => {
+      const commands = bridge.gateway.commandsTo(topic);
+      return commands.length === 2 && commands;
+    });
+
+    const { date: _date, ...data } = commands[0].payload.data;
+    assertEquals(data, {
+      ...blePerform(SWITCH_GUID, SWITCH_MAC, "0201eeddccbbaa80002200"),
+      callback: "",
+      user_id: "",
+      from: "",
+    });
+    assertEquals(
+      commands[1].payload.data.params[0].value,
+      "0201eeddccbbaa80001000"
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("dims through the gateway", async () => {
+  const bridge = await startBridge();
+  const topic = await commandTopic();
+
+  try {
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Brightness", 50);
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 1);
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "On", false);
+
+    const commands = await waitFor(() => {
+      const commands = bridge.gateway.commandsTo(topic);
+      return commands.length === 2 && commands;
+    });
+
+    const { date: _date, ...data } = commands[0].payload.data;
+    assertEquals(data, {
+      ...blePerform(DIMMER_GUID, DIMMER_MAC, "0202eeddccbbaa890080"),
+      callback: "",
+      user_id: "",
+      from: "",
+    });
+    assertEquals(
+      commands[1].payload.data.params[0].value,
+      "0202eeddccbbaa890000"
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("moves curtains through the gateway", async () => {
+  const profile = createProfile();
+  profile.profile.profile_subdevice[3].device_button_group = "CURTAIN";
+  const bridge = await startBridge({ profile, curtainControl: true });
+  const topic = await commandTopic();
+
+  try {
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "TargetPosition", 40);
+
+    const [command] = await waitFor(() => {
+      const commands = bridge.gateway.commandsTo(topic);
+      return commands.length === 1 && commands;
+    });
+
+    const { date: _date, ...data } = command.payload.data;
+    assertEquals(data, {
+      ...blePerform(DIMMER_GUID, DIMMER_MAC, "0202eeddccbbaa8A0066"),
+      callback: "",
+      user_id: "",
+      from: "",
+    });
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("forwards BLE advertisements to homebridge", async () => {
+  const bridge = await startBridge();
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000002");
+    await bridge.homebridge.publishBle(DIMMER_MAC.toLowerCase(), "00008000");
+
+    const updates = await waitFor(() => {
+      const messages = bridge.homebridge.received("set");
+      return messages.length === 4 && messages;
+    });
+
+    assertEquals(
+      updates.map(({ payload }) => [
+        payload.name,
+        payload.characteristic,
+        payload.value,
+      ]),
+      [
+        [`${SWITCH_GUID}-1`, "On", true],
+        [`${SWITCH_GUID}-2`, "On", false],
+        [`${DIMMER_GUID}-0`, "Brightness", 50],
+        [`${DIMMER_GUID}-0`, "On", true],
+      ]
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test(
+  "publishes BLE states to homebridge only when they change",
+  async () => {
+    const bridge = await startBridge();
+
+    try {
+      await waitFor(() => bridge.homebridge.received("add").length === 3);
+
+      await bridge.homebridge.publishBle(SWITCH_MAC, "0000002");
+      await waitFor(() => bridge.homebridge.received("set").length === 2);
+
+      // Repeated and malformed advertisements are not published
+      await bridge.homebridge.publishBle(SWITCH_MAC, "0000002");
+      await bridge.homebridge.publishBle(SWITCH_MAC, "00zz");
+      await bridge.homebridge.publishBle(SWITCH_MAC, "0000006");
+
+      const updates = await waitFor(() => {
+        const messages = bridge.homebridge.received("set");
+        return messages.length === 3 && messages;
+      });
+      await sleep(50);
+
+      assertEquals(bridge.homebridge.received("set").length, 3);
+      assertEquals(
+        [updates[2].payload.name, updates[2].payload.value],
+        [`${SWITCH_GUID}-2`, true]
+      );
+    } finally {
+      await bridge.stop();
+    }
+  }
+);
+
+Deno.test(
+  "drops advertisements already reported by another scanner",
+  async () => {
+    const bridge = await startBridge();
+    const mac = SWITCH_MAC.toLowerCase();
+
+    try {
+      await waitFor(() => bridge.homebridge.received("add").length === 3);
+
+      await bridge.homebridge.publishSighting("kitchen", {
+        mac,
+        data: "0000002",
+        rssi: -70,
+      });
+      await bridge.homebridge.publishSighting("hall", {
+        mac,
+        data: "0000002",
+        rssi: -55,
+      });
+      await bridge.homebridge.publishSighting("hall", {
+        mac,
+        data: "0000004",
+        rssi: -56,
+      });
+
+      await waitFor(() => bridge.homebridge.received("set").length === 4);
+      const scanners = service.scannerService!.scanners;
+      assertEquals(
+        ["kitchen", "hall"].map((id) => {
+          const { packets, duplicates, rssi, alive } = scanners.get(id)!;
+          return [packets, duplicates, rssi, alive];
+        }),
+        [
+          [1, 0, -70, true],
+          [2, 1, -56, true],
+        ]
+      );
+      assertEquals(
+        service.deviceService!.getState(`${SWITCH_GUID}-2`)?.on,
+        true
+      );
+    } finally {
+      await bridge.stop();
+    }
+  }
+);
+
+Deno.test("reports devices that went silent as unreachable", async () => {
+  const bridge = await startBridge({ availabilityTimeout: 50 });
+  const reachability = () =>
+    bridge.homebridge
+      .received("set/reachability")
+      .map(({ payload }) => [payload.name, payload.reachable]);
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+    await bridge.homebridge.publishBle(SWITCH_MAC, "0000002");
+    await waitFor(() => bridge.homebridge.received("set").length === 2);
+
+    await sleep(100);
+    service.availabilityService!.checkDevices();
+    await waitFor(() => reachability().length === 2);
+
+    await bridge.homebridge.publishBle(SWITCH_MAC, "0000002");
+    await waitFor(() => reachability().length === 4);
+
+    assertEquals(reachability(), [
+      [`${SWITCH_GUID}-1`, false],
+      [`${SWITCH_GUID}-2`, false],
+      [`${SWITCH_GUID}-1`, true],
+      [`${SWITCH_GUID}-2`, true],
+    ]);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("reports rollbacks without a previous state offline", async () => {
+  const bridge = await startBridge();
+  const id = `${SWITCH_GUID}-1`;
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+    await bridge.homebridge.publishBle(SWITCH_MAC, "0000000");
+    await waitFor(() => bridge.homebridge.received("set").length === 2);
+
+    // Seen by a scanner, but with no state known before the command
+    service.deviceService!.confirmTimeout = 50;
+    delete service.deviceService!.states[id];
+    await bridge.homebridge.set(id, "On", true);
+
+    const [unreachable] = await waitFor(() => {
+      const messages = bridge.homebridge.received("set/reachability");
+      return messages.length === 1 && messages;
+    });
+    assertEquals(unreachable.payload, { name: id, reachable: false });
+    assertEquals(service.deviceService!.getState(id)?.stale, true);
+    // The failed value is not published again
+    assertEquals(
+      bridge.homebridge
+        .received("set")
+        .filter(({ payload }) => payload.name === id)
+        .map(({ payload }) => payload.value),
+      [false, true]
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("answers homebridge get requests from the known state", async () => {
+  const bridge = await startBridge();
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+    await bridge.homebridge.publishBle(DIMMER_MAC, "00008000");
+    await waitFor(() => bridge.homebridge.received("set").length === 2);
+
+    await bridge.homebridge.get(`${DIMMER_GUID}-0`, "Brightness");
+    await bridge.homebridge.get(`${DIMMER_GUID}-0`, "On");
+    const replies = await waitFor(() => {
+      const messages = bridge.homebridge.received("set");
+      return messages.length === 4 && messages.slice(2);
+    });
+    assertEquals(
+      replies.map(({ payload }) => [
+        payload.name,
+        payload.characteristic,
+        payload.value,
+      ]),
+      [
+        [`${DIMMER_GUID}-0`, "Brightness", 50],
+        [`${DIMMER_GUID}-0`, "On", true],
+      ]
+    );
+
+    // Accessories of unknown devices are removed, once per request
+    await bridge.homebridge.get("unknown", "On");
+    await bridge.homebridge.set("unknown", "On", true);
+    const [removal] = await waitFor(() => {
+      const messages = bridge.homebridge.received("remove");
+      return messages.length === 1 && messages;
+    });
+    assertEquals(removal.payload.name, "unknown");
+    assertEquals(typeof removal.payload.request_id, "string");
+
+    // Unknown characteristics and states are only logged
+    await bridge.homebridge.get(`${SWITCH_GUID}-1`, "On");
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Hue", 120);
+    await bridge.homebridge.get(`${DIMMER_GUID}-0`, "On");
+    const [reply] = await waitFor(() => {
+      const messages = bridge.homebridge.received("set");
+      return messages.length >= 5 && messages.slice(4);
+    });
+    assertEquals(
+      [reply.payload.name, reply.payload.characteristic],
+      [`${DIMMER_GUID}-0`, "On"]
+    );
+    assertEquals(
+      bridge.homebridge.messages
+        .filter(({ topic }) => !topic.match(/^homebridge\/to\/(add|set)$/))
+        .map(({ topic }) => topic),
+      ["homebridge/to/remove"]
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("logs in again when the session expires", async () => {
+  const bridge = await startBridge();
+
+  try {
+    bridge.cloud.expireSessions();
+    const profile = await service.accountServices
+      .get("")!
+      .cloudService.afterLogin(1);
+
+    assertEquals(profile.profile.profile_device.length, 2);
+    assertEquals(
+      bridge.cloud.requests.slice(-3).map(({ path, status }) => [path, status]),
+      [
+        ["/api/method/appv6.afterLogin", 403],
+        ["/api/method/login", 200],
+        ["/api/method/appv6.afterLogin", 200],
+      ]
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("caches the cloud responses", async () => {
+  const bridge = await startBridge();
+
+  try {
+    const appSetting = await service.cacheService!.read<{
+      config: { mqtt_port: number };
+    }>("appSetting");
+    assertEquals(appSetting?.config.mqtt_port, bridge.gateway.port);
+
+    const profile = await service.cacheService!.read("afterLogin");
+    assertEquals(profile, bridge.cloud.options.profile);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("falls back to the cache when the cloud never answers", async () => {
+  const bridge = await startBridge();
+  const account = new AccountService({
+    id: "",
+    baseUrl: bridge.cloud.baseUrl,
+    username: USERNAME,
+    password: PASSWORD,
+    appId: APP_ID,
+    requestTimeout: 100,
+    retry: { initialDelay: 10, maxDelay: 10 },
+  });
+
+  try {
+    bridge.cloud.hang = true;
+    const profile = await account.start(2);
+
+    assertEquals(profile, bridge.cloud.options.profile);
+  } finally {
+    await account.stop();
+    await bridge.stop();
+  }
+});
+
+Deno.test("triggers scenes from homebridge", async () => {
+  const profile = createProfile();
+  profile.profile.profile_scene.push(createScene());
+  const bridge = await startBridge({ profile });
+  const topic = await commandTopic();
+
+  try {
+    const scene = await waitFor(() =>
+      bridge.homebridge
+        .received("add")
+        .find(({ payload }) => payload.name === "scene-SCENE-0001")
+    );
+    assertEquals(scene.payload.service, "Switch");
+    assertEquals(scene.payload.service_name, "Good Night (Bedroom)");
+
+    await bridge.homebridge.set("scene-SCENE-0001", "On", true);
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 2);
+
+    // The switch resets itself once the scene has run
+    const reset = await waitFor(() =>
+      bridge.homebridge
+        .received("set")
+        .find(({ payload }) => payload.name === "scene-SCENE-0001")
+    );
+    assertEquals(reset.payload.value, false);
+  } finally {
+    await bridge.stop();
+  }
+});
@@ -0,0 +1,112 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import mqtt from "mqtt";
+import AedesService, { topicMatches } from "../src/service/aedesService.ts";
+import { getFreePort, waitFor } from "./harness/utils.ts";
+
+const users = [
+  { username: "homebridge", password: "hb-secret" },
+  {
+    username: "scanner",
+    password: "scanner-secret",
+    publish: ["yoswit/ble/devices"],
+    subscribe: [],
+  },
+];
+
+Deno.test("topic filters cover topics and narrower filters", () => {
+  assertEquals(topicMatches("homebridge/#", "homebridge/from/set"), true);
+  assertEquals(topicMatches("homebridge/#", "homebridge"), true);
+  assertEquals(topicMatches("yoswit/+/set", "yoswit/abc-1/set"), true);
+  assertEquals(topicMatches("yoswit/+/set", "yoswit/abc-1/state"), false);
+  assertEquals(topicMatches("yoswit/ble/devices", "yoswit/ble/#"), false);
+  assertEquals(topicMatches("homebridge/+", "homebridge/#"), false);
+  assertEquals(topicMatches("homebridge/#", "homebridge/to/#"), true);
+});
+
+Deno.test("rejects unknown users and enforces ACLs", async () => {
+  const port = await getFreePort();
+  const broker = new AedesService(port, "127.0.0.1", { users });
+  broker.start();
+  const url = `mqtt://127.0.0.1:${port}`;
+
+  await assertRejects(() =>
+    mqtt.connectAsync(url, {
+      username: "homebridge",
+      password: "wrong",
+      reconnectPeriod: 0,
+    })
+  );
+
+  const homebridge = await mqtt.connectAsync(url, {
+    username: "homebridge",
+    password: "hb-secret",
+    reconnectPeriod: 0,
+  });
+  const scanner = await mqtt.connectAsync(url, {
+    username: "scanner",
+    password: "scanner-secret",
+    reconnectPeriod: 0,
+  });
+  const received: string[] = [];
+  homebridge.on("message", (topic) => received.push(topic));
+
+  try {
+    await homebridge.subscribeAsync("#");
+
+    await assertRejects(() => scanner.subscribeAsync("homebridge/#"));
+
+    await scanner.publishAsync("yoswit/ble/devices", "aa:bb:cc:dd:ee:01");
+    await waitFor(() => received.includes("yoswit/ble/devices"));
+
+    // Aedes disconnects MQTT 3 clients publishing where they may not
+    await scanner.publishAsync("homebridge/from/set", "{}").catch(() => {});
+    await waitFor(() => !scanner.connected);
+    assertEquals(received.includes("homebridge/from/set"), false);
+  } finally {
+    await homebridge.endAsync();
+    await scanner.endAsync(true);
+    await broker.stop();
+  }
+});
+
+Deno.test("accepts clients over WebSocket", async () => {
+  const port = await getFreePort();
+  const wsPort = await getFreePort();
+  const broker = new AedesService(port, "127.0.0.1", {
+    websocket: { port: wsPort },
+  });
+  broker.start();
+  await waitFor(() => broker.isRunning);
+
+  // mqtt.js cannot open WebSockets once it made a TCP connection under Deno,
+  // so the CONNECT packet is written by hand
+  const socket = new WebSocket(`ws://127.0.0.1:${wsPort}`, ["mqtt"]);
+  socket.binaryType = "arraybuffer";
+  const received: number[] = [];
+  socket.onmessage = (event) =>
+    received.push(...new Uint8Array(event.data as ArrayBuffer));
+
+  try {
+    await waitFor(() => socket.readyState === WebSocket.OPEN);
+
+    const clientId = new TextEncoder().encode("ws-test");
+    const variableHeader = [
+      0,
+      4,
+      ...new TextEncoder().encode("MQTT"),
+      4,
+      2,
+      0,
+      60,
+    ];
+    const body = [...variableHeader, 0, clientId.length, ...clientId];
+    socket.send(new Uint8Array([0x10, body.length, ...body]));
+
+    // CONNACK with return code 0
+    await waitFor(() => received.length >= 4);
+    assertEquals(received, [0x20, 2, 0, 0]);
+  } finally {
+    socket.close();
+    await broker.stop();
+  }
+});
@@ -0,0 +1,283 @@
+import { assert, assertEquals } from "@std/assert";
+import { sleep } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import { startBridge } from "./harness/bridge.ts";
+import {
+  DIMMER_GUID,
+  GATEWAY_ID,
+  SWITCH_GUID,
+  SWITCH_MAC,
+} from "./harness/fixtures.ts";
+import { waitFor } from "./harness/utils.ts";
+
+// Response tracking is off by default, the fake gateway answers on this topic
+const responseTopic = "res/{gateway}";
+
+function values(
+  commands: { payload: { data: { params: { value: string }[] } } }[]
+) {
+  return commands.map(({ payload }) => payload.data.params[0].value);
+}
+
+Deno.test("collapses brightness bursts", async () => {
+  const bridge = await startBridge({ command: { debounce: 50 } });
+
+  try {
+    for (const brightness of [10, 20, 30])
+      await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Brightness", brightness);
+
+    await waitFor(() => bridge.gateway.commands.length > 0);
+    await sleep(150);
+
+    assertEquals(values(bridge.gateway.commands), ["0202eeddccbbaa89004D"]);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("rate limits writes per gateway", async () => {
+  const bridge = await startBridge({ command: { interval: 100 } });
+
+  try {
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "On", true);
+
+    const [first, second] = await waitFor(
+      () => bridge.gateway.commands.length === 2 && bridge.gateway.commands
+    );
+    assert(second.receivedAt - first.receivedAt >= 90);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("retries unconfirmed commands", async () => {
+  const bridge = await startBridge({
+    command: { retries: 2, retryDelay: 50 },
+  });
+
+  try {
+    // The scanner has seen the switch, so commands can be confirmed
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000000");
+    await sleep(50);
+
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+    await waitFor(() => bridge.gateway.commands.length === 3);
+    await sleep(150);
+
+    assertEquals(bridge.gateway.commands.length, 3);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("does not retry confirmed commands", async () => {
+  const bridge = await startBridge({
+    command: { retries: 2, retryDelay: 50 },
+  });
+
+  try {
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000000");
+    await sleep(50);
+
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+    await waitFor(() => bridge.gateway.commands.length === 1);
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000002");
+    await sleep(150);
+
+    assertEquals(bridge.gateway.commands.length, 1);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("merges gangs of the same panel", async () => {
+  const bridge = await startBridge({ command: { mergeWindow: 50 } });
+
+  try {
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+    await bridge.homebridge.set(`${SWITCH_GUID}-2`, "On", true);
+
+    await waitFor(() => bridge.gateway.commands.length > 0);
+    await sleep(100);
+
+    assertEquals(values(bridge.gateway.commands), ["0201eeddccbbaa80003300"]);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("retries only unconfirmed gangs", async () => {
+  const bridge = await startBridge({
+    command: { mergeWindow: 50, retries: 1, retryDelay: 100 },
+  });
+
+  try {
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000000");
+    await sleep(50);
+
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+    await bridge.homebridge.set(`${SWITCH_GUID}-2`, "On", true);
+    await waitFor(() => bridge.gateway.commands.length === 1);
+
+    // Only gang 1 reports the new state
+    await bridge.homebridge.publishBle(SWITCH_MAC.toLowerCase(), "0000002");
+    await waitFor(() => bridge.gateway.commands.length === 2);
+
+    assertEquals(values(bridge.gateway.commands), [
+      "0201eeddccbbaa80003300",
+      "0201eeddccbbaa80002200",
+    ]);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("reverts the state of failed commands", async () => {
+  const bridge = await startBridge({ command: { responseTopic } });
+  bridge.gateway.response = "failure";
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+
+    const updates = await waitFor(() => {
+      const messages = bridge.homebridge.received("set");
+      return messages.length === 2 && messages;
+    });
+
+    assertEquals(
+      updates.map(({ payload }) => payload.value),
+      [true, false]
+    );
+    assertEquals(
+      service.commandService!.results.get(`${SWITCH_GUID}-1`)?.outcome,
+      "failure"
+    );
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("records gateway responses", async () => {
+  const bridge = await startBridge({ command: { responseTopic } });
+
+  try {
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Brightness", 30);
+    const result = await waitFor(() =>
+      service.commandService!.results.get(`${DIMMER_GUID}-0`)
+    );
+
+    assertEquals(result.outcome, "success");
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("tracks no responses without a topic", async () => {
+  const bridge = await startBridge();
+
+  try {
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Brightness", 30);
+    await waitFor(() => bridge.gateway.commands.length === 1);
+    await sleep(50);
+
+    assertEquals(bridge.gateway.commands[0].payload.data.callback, "");
+    assertEquals(service.commandService!.results.size, 0);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("times out without a gateway response", async () => {
+  const bridge = await startBridge({ command: { responseTopic } });
+  bridge.gateway.response = "none";
+
+  try {
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Brightness", 30);
+    const result = await waitFor(() =>
+      service.commandService!.results.get(`${DIMMER_GUID}-0`)
+    );
+
+    assertEquals(result.outcome, "timeout");
+    assertEquals(service.deviceService!.getState(`${DIMMER_GUID}-0`)?.on, true);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("survives throwing failure handlers", async () => {
+  const bridge = await startBridge({ command: { responseTopic } });
+  bridge.gateway.response = "failure";
+  let failures = 0;
+
+  try {
+    service.commandService!.enqueue({
+      key: "throwing",
+      deviceIds: [`${SWITCH_GUID}-1`],
+      gatewayId: GATEWAY_ID,
+      data: { command: "Control", params: [] },
+      onFailure: () => {
+        failures++;
+        throw new Error("Handler failed");
+      },
+    });
+
+    await waitFor(() => failures === 1);
+    await sleep(50);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+function failPublishes(count: number) {
+  const mqttService = service.accountServices.get("")!.mqttService!;
+  const publish = mqttService.publish.bind(mqttService);
+  mqttService.publish = (...args) => {
+    if (count-- > 0) throw new Error("Client is closed");
+    return publish(...args);
+  };
+}
+
+Deno.test("retries commands that could not be sent", async () => {
+  const bridge = await startBridge({
+    command: { retries: 1, retryDelay: 50 },
+  });
+  failPublishes(1);
+
+  try {
+    await bridge.homebridge.set(`${DIMMER_GUID}-0`, "Brightness", 30);
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+
+    // The queue keeps draining, and the failed command follows later
+    await waitFor(() => bridge.gateway.commands.length === 2);
+    assertEquals(values(bridge.gateway.commands), [
+      "0201eeddccbbaa80001100",
+      "0202eeddccbbaa89004D",
+    ]);
+  } finally {
+    await bridge.stop();
+  }
+});
+
+Deno.test("reverts commands that could never be sent", async () => {
+  const bridge = await startBridge({ command: { retries: 0 } });
+  failPublishes(Infinity);
+
+  try {
+    await waitFor(() => bridge.homebridge.received("add").length === 3);
+    await bridge.homebridge.set(`${SWITCH_GUID}-1`, "On", true);
+
+    const updates = await waitFor(() => {
+      const messages = bridge.homebridge.received("set");
+      return messages.length === 2 && messages;
+    });
+    assertEquals(
+      updates.map(({ payload }) => payload.value),
+      [true, false]
+    );
+    assertEquals(bridge.gateway.commands.length, 0);
+  } finally {
+    await bridge.stop();
+  }
+});
@@ -0,0 +1,183 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { ConfigError, loadConfig } from "../src/config.ts";
+
+const credentials = {
+  BASE_URL: "yoswit.example.com",
+  USERNAME: "tester",
+  PASSWORD: "secret",
+  APP_ID: "test-app",
+};
+
+async function withConfigFile<T>(
+  content: unknown,
+  fn: (path: string) => Promise<T>
+): Promise<T> {
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await Deno.writeTextFile(path, JSON.stringify(content));
+    return await fn(path);
+  } finally {
+    await Deno.remove(path);
+  }
+}
+
+async function configErrors(content: unknown, env = {}): Promise<string[]> {
+  const error = await withConfigFile(content, (path) =>
+    assertRejects(() => loadConfig(path, env), ConfigError)
+  );
+  return (error as ConfigError).errors;
+}
+
+Deno.test("loads defaults with credentials from the environment", async () => {
+  const config = await loadConfig("./does-not-exist.json", credentials);
+
+  assertEquals(config.cloud.baseUrl, "yoswit.example.com");
+  assertEquals(config.broker.port, 1883);
+  assertEquals(config.integrations.homebridge.enabled, true);
+  assertEquals(config.integrations.homeassistant.enabled, false);
+});
+
+Deno.test("environment variables override the file", async () => {
+  const config = await withConfigFile(
+    {
+      cloud: { baseUrl: "file.example.com", username: "a", password: "b" },
+      broker: { port: 1884 },
+      log: { level: "DEBUG" },
+    },
+    (path) =>
+      loadConfig(path, {
+        APP_ID: "test-app",
+        AEDES_PORT: "1885",
+        INTEGRATIONS: "homeassistant",
+      })
+  );
+
+  assertEquals(config.cloud.baseUrl, "file.example.com");
+  assertEquals(config.broker.port, 1885);
+  assertEquals(config.log.level, "DEBUG");
+  assertEquals(config.integrations.homebridge.enabled, false);
+  assertEquals(config.integrations.homeassistant.enabled, true);
+});
+
+Deno.test("empty environment variables keep non-string fields", async () => {
+  const config = await withConfigFile(
+    { automations: { latitude: 51.5, longitude: -0.1, rules: [] } },
+    (path) =>
+      loadConfig(path, {
+        ...credentials,
+        AUTOMATION_LATITUDE: "",
+        AUTOMATION_LONGITUDE: "",
+        GATEWAY_RESPONSE_TOPIC: "",
+      })
+  );
+
+  assertEquals(config.automations.latitude, 51.5);
+  assertEquals(config.automations.longitude, -0.1);
+  assertEquals(config.commands.responseTopic, "");
+});
+
+Deno.test("reports every invalid field", async () => {
+  const errors = await configErrors(
+    {
+      cloud: { username: "a", password: "b", appId: "c", retries: 1 },
+      broker: { port: 70000 },
+      log: { level: "LOUD" },
+      overrides: { exclude: [{ name: "(" }] },
+    },
+    { COMMAND_INTERVAL: "fast" }
+  );
+
+  assertEquals(errors, [
+    "cloud.retries: unknown field",
+    "cloud.baseUrl: is required",
+    "broker.port: must be at most 65535",
+    "commands.interval (from COMMAND_INTERVAL): must be a number",
+    "log.level: must be one of DEBUG, INFO, WARN, ERROR",
+    "overrides: Invalid name pattern: (",
+  ]);
+});
+
+Deno.test("validates the accounts list", async () => {
+  const account = {
+    id: "home",
+    baseUrl: "yoswit.example.com",
+    username: "a",
+    password: "b",
+    appId: "c",
+  };
+  const config = await withConfigFile(
+    { accounts: [account, { ...account, id: "office", name: "Office" }] },
+    (path) => loadConfig(path, {})
+  );
+  assertEquals(
+    config.accounts.map(({ id }) => id),
+    ["home", "office"]
+  );
+
+  const errors = await configErrors({
+    accounts: [account, { ...account, password: undefined }, { id: "a/b" }],
+  });
+  assertEquals(errors, [
+    "accounts[1].password: is required",
+    "accounts[1].id: duplicate account home",
+    "accounts[2].baseUrl: is required",
+    "accounts[2].username: is required",
+    "accounts[2].password: is required",
+    "accounts[2].appId: is required",
+    'accounts[2].id: may only contain letters, digits, "_" and "-"',
+  ]);
+});
+
+Deno.test("requires a token for the HTTP API", async () => {
+  const errors = await configErrors({ api: { enabled: true } }, credentials);
+
+  assertEquals(errors, ["api.token: is required when the API is enabled"]);
+});
+
+Deno.test("validates broker users and TLS", async () => {
+  const errors = await configErrors(
+    {
+      broker: {
+        users: [
+          { username: "scanner", password: "a", publish: "yoswit/#" },
+          { username: "scanner", password: "b" },
+        ],
+        tls: { enabled: true, cert: "cert.pem" },
+      },
+    },
+    credentials
+  );
+
+  assertEquals(errors, [
+    "broker.users[0].publish: must be a list of strings",
+    "broker.users[1].username: duplicate user scanner",
+    "broker.tls.key: is required when TLS is enabled",
+  ]);
+});
+
+Deno.test("validates automations", async () => {
+  const errors = await configErrors(
+    {
+      automations: {
+        rules: [
+          { id: "hallway", device: "switch-1", autoOff: 600 },
+          { id: "porch", device: "switch-2", autoOff: 60, days: ["mon"] },
+          { id: "morning", device: "switch-1", at: "7:5", days: ["monday"] },
+          { id: "evening", device: "switch-1", sun: "sunset", action: "on" },
+          { id: "evening", device: "switch-1", autoOff: 60, at: "22:00" },
+        ],
+      },
+    },
+    credentials
+  );
+
+  assertEquals(errors, [
+    "automations.rules[4].id: duplicate automation evening",
+    "automations.rules[1].days: only applies to schedules",
+    "automations.rules[2].at: must be a time as HH:MM",
+    "automations.rules[2].action: is required for schedules",
+    "automations.rules[2].days: unknown day monday, use sun, mon, tue, wed, thu, fri, sat",
+    "automations.rules[3].sun: needs automations.latitude and automations.longitude",
+    "automations.rules[4]: needs exactly one of autoOff, at and sun",
+  ]);
+});
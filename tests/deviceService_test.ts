@@ -0,0 +1,284 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { sleep } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import AvailabilityService from "../src/service/availabilityService.ts";
+import DeviceService, { DeviceType } from "../src/service/deviceService.ts";
+import {
+  createProfile,
+  createScene,
+  DIMMER_GUID,
+  GATEWAY_ID,
+  SWITCH_GUID,
+} from "./harness/fixtures.ts";
+
+Deno.test("fromAfterLoginResp parses switches and dimmers", () => {
+  const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+
+  assertEquals(deviceService.devices, {
+    [`${SWITCH_GUID}-1`]: {
+      id: `${SWITCH_GUID}-1`,
+      guid: SWITCH_GUID,
+      name: "Ceiling",
+      type: DeviceType.SWITCH,
+      index: 1,
+      macAddress: "aa:bb:cc:dd:ee:01",
+      roomName: "Living Room",
+      gatewayId: GATEWAY_ID,
+    },
+    [`${SWITCH_GUID}-2`]: {
+      id: `${SWITCH_GUID}-2`,
+      guid: SWITCH_GUID,
+      name: "Wall",
+      type: DeviceType.SWITCH,
+      index: 2,
+      macAddress: "aa:bb:cc:dd:ee:01",
+      roomName: "Living Room",
+      gatewayId: GATEWAY_ID,
+    },
+    [`${DIMMER_GUID}-0`]: {
+      id: `${DIMMER_GUID}-0`,
+      guid: DIMMER_GUID,
+      name: "Bedside",
+      type: DeviceType.DIMMING,
+      index: 0,
+      macAddress: "aa:bb:cc:dd:ee:02",
+      roomName: "Bedroom",
+      gatewayId: GATEWAY_ID,
+    },
+  });
+});
+
+Deno.test("fromAfterLoginResp skips subdevices without device info", () => {
+  const profile = createProfile();
+  profile.profile.profile_device = [
+    { device: DIMMER_GUID, gateway: GATEWAY_ID },
+  ];
+
+  const deviceService = DeviceService.fromAfterLoginResp(profile);
+
+  assertEquals(Object.keys(deviceService.devices), [`${DIMMER_GUID}-0`]);
+});
+
+Deno.test("fromAfterLoginResp parses curtains and fans", () => {
+  const profile = createProfile();
+  profile.profile.profile_subdevice.push(
+    {
+      device: SWITCH_GUID,
+      device_button_group: "FAN 3",
+      title: "Exhaust",
+      room_name: "[en]Living Room[/en]",
+    },
+    {
+      device: SWITCH_GUID,
+      device_button_group: "CURTAIN",
+      title: "Blinds",
+      room_name: "[en]Living Room[/en]",
+    },
+    {
+      device: DIMMER_GUID,
+      device_button_group: "THERMOSTAT",
+      title: "Heating",
+      room_name: "[en]Bedroom[/en]",
+    }
+  );
+
+  const deviceService = DeviceService.fromAfterLoginResp(profile);
+
+  assertEquals(deviceService.devices[`${SWITCH_GUID}-3`].type, DeviceType.FAN);
+  assertEquals(
+    deviceService.devices[`${SWITCH_GUID}-0`].type,
+    DeviceType.CURTAIN
+  );
+  // Unknown groups are skipped
+  assertEquals(Object.keys(deviceService.devices).length, 5);
+});
+
+Deno.test("applyDevices reports added, removed and renamed devices", () => {
+  const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  deviceService.reportState(`${SWITCH_GUID}-2`, { on: true });
+
+  const profile = createProfile();
+  profile.profile.profile_subdevice[0].title = "Ceiling Light";
+  profile.profile.profile_subdevice.splice(1, 1);
+  const changes = deviceService.applyDevices(
+    DeviceService.fromAfterLoginResp(profile).devices
+  );
+
+  assertEquals(changes.added, []);
+  assertEquals(
+    changes.removed.map((device) => device.id),
+    [`${SWITCH_GUID}-2`]
+  );
+  assertEquals(
+    changes.renamed.map(({ after }) => after.name),
+    ["Ceiling Light"]
+  );
+
+  // Nothing of removed devices is kept
+  assertEquals(deviceService.getState(`${SWITCH_GUID}-2`), undefined);
+  assertEquals(deviceService.bleUpdatedAt[`${SWITCH_GUID}-2`], undefined);
+});
+
+Deno.test("devices of several accounts are kept apart", () => {
+  const deviceService = new DeviceService();
+  const home = DeviceService.fromAfterLoginResp(createProfile(), undefined, {
+    id: "home",
+  });
+  const office = DeviceService.fromAfterLoginResp(createProfile(), undefined, {
+    id: "office",
+    name: "Office",
+  });
+
+  deviceService.applyDevices(home.devices, "home");
+  deviceService.applyDevices(office.devices, "office");
+  assertEquals(deviceService.devices[`office:${SWITCH_GUID}-1`].home, "Office");
+  assertEquals(deviceService.devices[`home:${SWITCH_GUID}-1`].home, "home");
+
+  // Syncing one account leaves the devices of the other alone
+  const changes = deviceService.applyDevices({}, "home");
+  assertEquals(changes.removed.length, 3);
+  assertEquals(
+    Object.keys(deviceService.devices).every((id) => id.startsWith("office:")),
+    true
+  );
+  assertEquals(Object.keys(deviceService.devices).length, 3);
+});
+
+Deno.test("commands update the state optimistically", () => {
+  const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+
+  deviceService.dimmingDevice(`${DIMMER_GUID}-0`, 40);
+
+  const { updatedAt } = deviceService.getState(`${DIMMER_GUID}-0`)!;
+  assertEquals(deviceService.getState(`${DIMMER_GUID}-0`), {
+    on: true,
+    brightness: 40,
+    updatedAt,
+    onSince: updatedAt,
+    source: "command",
+    pending: false,
+  });
+});
+
+Deno.test("curtain positions are confirmed by advertisements", () => {
+  const profile = createProfile();
+  profile.profile.profile_subdevice[3].device_button_group = "CURTAIN";
+  const deviceService = DeviceService.fromAfterLoginResp(profile);
+  deviceService.curtainControl = true;
+  const id = `${DIMMER_GUID}-0`;
+
+  deviceService.reportState(id, { on: false, position: 0 });
+  deviceService.curtainDevice(id, 60);
+  assertEquals(deviceService.getState(id)?.pending, true);
+
+  // Positions are scaled to 0-255 and back, so they may be off by one
+  deviceService.reportState(id, { on: true, position: 59 });
+  assertEquals(deviceService.getState(id)?.pending, false);
+  assertEquals(deviceService.getState(id)?.position, 59);
+});
+
+Deno.test("curtains are not moved unless enabled", () => {
+  const profile = createProfile();
+  profile.profile.profile_subdevice[3].device_button_group = "CURTAIN";
+  const deviceService = DeviceService.fromAfterLoginResp(profile);
+  const id = `${DIMMER_GUID}-0`;
+
+  assertThrows(
+    () => deviceService.curtainDevice(id, 60),
+    Error,
+    "Curtain control is experimental"
+  );
+  assertEquals(deviceService.getState(id), undefined);
+});
+
+Deno.test("BLE advertisements confirm pending states", () => {
+  const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  const id = `${SWITCH_GUID}-1`;
+
+  deviceService.reportState(id, { on: false });
+  deviceService.switchDevice(id, true);
+  assertEquals(deviceService.getState(id)?.pending, true);
+
+  // A stale advertisement does not override the expected state
+  deviceService.reportState(id, { on: false });
+  assertEquals(deviceService.getState(id)?.on, true);
+
+  deviceService.reportState(id, { on: true });
+  assertEquals(deviceService.getState(id)?.pending, false);
+  assertEquals(deviceService.getState(id)?.source, "ble");
+});
+
+Deno.test("repeated advertisements keep the time it turned on", async () => {
+  const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  const id = `${SWITCH_GUID}-1`;
+
+  deviceService.reportState(id, { on: true });
+  const { onSince } = deviceService.getState(id)!;
+  await sleep(5);
+  deviceService.reportState(id, { on: true });
+
+  const state = deviceService.getState(id)!;
+  assertEquals(state.onSince, onSince);
+  assertEquals(state.updatedAt > onSince!, true);
+
+  deviceService.reportState(id, { on: false });
+  assertEquals(deviceService.getState(id)?.onSince, undefined);
+});
+
+Deno.test("unconfirmed states are rolled back", async () => {
+  const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  deviceService.confirmTimeout = 20;
+  const id = `${SWITCH_GUID}-1`;
+
+  deviceService.reportState(id, { on: false });
+  deviceService.switchDevice(id, true);
+  await sleep(50);
+
+  assertEquals(deviceService.getState(id)?.on, false);
+  assertEquals(deviceService.getState(id)?.pending, false);
+});
+
+Deno.test(
+  "unconfirmed states without a previous one become unknown",
+  async () => {
+    const deviceService = DeviceService.fromAfterLoginResp(createProfile());
+    deviceService.confirmTimeout = 20;
+    service.deviceService = deviceService;
+    service.availabilityService = new AvailabilityService({ timeout: 0 });
+    const id = `${SWITCH_GUID}-1`;
+
+    try {
+      // Seen by a scanner, but with no state known before the command
+      deviceService.reportState(id, { on: false });
+      delete deviceService.states[id];
+      deviceService.switchDevice(id, true);
+      await sleep(50);
+
+      assertEquals(deviceService.getState(id)?.stale, true);
+      assertEquals(deviceService.getState(id)?.pending, false);
+      assertEquals(service.availabilityService.isOnline(id), false);
+
+      // The next advertisement settles the state
+      deviceService.reportState(id, { on: true });
+      assertEquals(deviceService.getState(id)?.stale, undefined);
+      assertEquals(service.availabilityService.isOnline(id), true);
+    } finally {
+      service.deviceService = null;
+      service.availabilityService = null;
+    }
+  }
+);
+
+Deno.test("scenes run their actions", () => {
+  const profile = createProfile();
+  profile.profile.profile_scene.push(createScene());
+  const deviceService = DeviceService.fromAfterLoginResp(profile);
+
+  assertEquals(Object.keys(deviceService.scenes), ["scene-SCENE-0001"]);
+  assertEquals(deviceService.scenes["scene-SCENE-0001"].roomName, "Bedroom");
+
+  deviceService.runScene("scene-SCENE-0001");
+
+  assertEquals(deviceService.getState(`${SWITCH_GUID}-1`)?.on, false);
+  assertEquals(deviceService.getState(`${DIMMER_GUID}-0`)?.brightness, 20);
+});
@@ -0,0 +1,82 @@
+import { assertEquals } from "@std/assert";
+import mqtt from "mqtt";
+import { md5, sleep } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import { startBridge } from "./harness/bridge.ts";
+import { GATEWAY_ID, SWITCH_GUID } from "./harness/fixtures.ts";
+import { waitFor } from "./harness/utils.ts";
+
+Deno.test("controls devices through plain topics", async () => {
+  const bridge = await startBridge();
+  const client = await mqtt.connectAsync(
+    `mqtt://127.0.0.1:${service.aedesService!.port}`,
+    { reconnectPeriod: 0 }
+  );
+  const states: Map<string, string> = new Map();
+  client.on("message", (topic, payload) =>
+    states.set(topic, payload.toString())
+  );
+  const topic = `cmd/${await md5(await md5(GATEWAY_ID))}`;
+
+  try {
+    await client.subscribeAsync("yoswit/+/state");
+    await client.publishAsync(`yoswit/${SWITCH_GUID}-2/set`, "on");
+
+    const commands = await waitFor(() => {
+      const commands = bridge.gateway.commandsTo(topic);
+      return commands.length === 1 && commands;
+    });
+    assertEquals(commands[0].payload.data.params[0].guid, SWITCH_GUID);
+
+    const state = await waitFor(() => {
+      const state = states.get(`yoswit/${SWITCH_GUID}-2/state`);
+      return state && JSON.parse(state);
+    });
+    assertEquals(
+      [state.name, state.room, state.type, state.on],
+      ["Wall", "Living Room", "switch", true]
+    );
+
+    await client.publishAsync(
+      `yoswit/${SWITCH_GUID}-2/set`,
+      JSON.stringify({ on: false })
+    );
+    await waitFor(() => {
+      const state = states.get(`yoswit/${SWITCH_GUID}-2/state`);
+      return state && JSON.parse(state).on === false;
+    });
+  } finally {
+    await client.endAsync();
+    await bridge.stop();
+  }
+});
+
+Deno.test("rejects payloads without a field for the device type", async () => {
+  const bridge = await startBridge();
+  const client = await mqtt.connectAsync(
+    `mqtt://127.0.0.1:${service.aedesService!.port}`,
+    { reconnectPeriod: 0 }
+  );
+  const topic = `cmd/${await md5(await md5(GATEWAY_ID))}`;
+
+  try {
+    await client.publishAsync(`yoswit/${SWITCH_GUID}-2/set`, "on");
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 1);
+
+    await client.publishAsync(`yoswit/${SWITCH_GUID}-2/set`, "{}");
+    await client.publishAsync(
+      `yoswit/${SWITCH_GUID}-2/set`,
+      JSON.stringify({ position: 50 })
+    );
+    await sleep(200);
+
+    assertEquals(bridge.gateway.commandsTo(topic).length, 1);
+    assertEquals(
+      service.deviceService!.getState(`${SWITCH_GUID}-2`)?.on,
+      true
+    );
+  } finally {
+    await client.endAsync();
+    await bridge.stop();
+  }
+});
@@ -0,0 +1,154 @@
+import type { BleAdvertisement } from "../../src/bleDecoder.ts";
+import { DeviceType } from "../../src/service/deviceService.ts";
+
+interface DecodedFrame {
+  name: string;
+  payload: string; // as published on `yoswit/ble/devices`
+  type: DeviceType;
+  expected: BleAdvertisement;
+}
+
+interface RejectedFrame {
+  name: string;
+  payload: string;
+  reason: string;
+}
+
+interface UndecodableData {
+  name: string;
+  data: string; // e.g. restored from the BLE cache, without a frame to parse
+  type: DeviceType;
+  reason: string;
+}
+
+// Frames as published by the ESP32 scanner
+const decodedFrames: DecodedFrame[] = [
+  {
+    name: "switch with every gang off",
+    payload: "aa:bb:cc:dd:ee:010000000",
+    type: DeviceType.SWITCH,
+    expected: { model: "switch", gangs: [false, false, false] },
+  },
+  {
+    name: "switch with gang 1 on",
+    payload: "aa:bb:cc:dd:ee:010000002",
+    type: DeviceType.SWITCH,
+    expected: { model: "switch", gangs: [true, false, false] },
+  },
+  {
+    name: "switch with gangs 2 and 3 on, ignoring the lowest bit",
+    payload: "aa:bb:cc:dd:ee:01000000d",
+    type: DeviceType.SWITCH,
+    expected: { model: "switch", gangs: [false, true, true] },
+  },
+  {
+    name: "fan decoded like a switch",
+    payload: "aa:bb:cc:dd:ee:030000002",
+    type: DeviceType.FAN,
+    expected: { model: "switch", gangs: [true, false, false] },
+  },
+  {
+    name: "uppercase MAC address and data",
+    payload: "AA:BB:CC:DD:EE:0100000E",
+    type: DeviceType.SWITCH,
+    expected: { model: "switch", gangs: [true, true, true] },
+  },
+  {
+    name: "trailing newline",
+    payload: "aa:bb:cc:dd:ee:010000002\n",
+    type: DeviceType.SWITCH,
+    expected: { model: "switch", gangs: [true, false, false] },
+  },
+  {
+    name: "switch with a full-length advertisement",
+    payload: "aa:bb:cc:dd:ee:01" + "0".repeat(61) + "2",
+    type: DeviceType.SWITCH,
+    expected: { model: "switch", gangs: [true, false, false] },
+  },
+  {
+    name: "dimmer at half brightness",
+    payload: "aa:bb:cc:dd:ee:0200008000",
+    type: DeviceType.DIMMING,
+    expected: { model: "dimming", brightness: 50 },
+  },
+  {
+    name: "dimmer at full brightness",
+    payload: "aa:bb:cc:dd:ee:020000ff00",
+    type: DeviceType.DIMMING,
+    expected: { model: "dimming", brightness: 100 },
+  },
+  {
+    name: "dimmer turned off",
+    payload: "aa:bb:cc:dd:ee:02000000",
+    type: DeviceType.DIMMING,
+    expected: { model: "dimming", brightness: 0 },
+  },
+  {
+    name: "curtain partly open",
+    payload: "aa:bb:cc:dd:ee:040000661",
+    type: DeviceType.CURTAIN,
+    expected: { model: "curtain", position: 40 },
+  },
+];
+
+const rejectedFrames: RejectedFrame[] = [
+  {
+    name: "empty payload",
+    payload: "",
+    reason: "truncated MAC address (0 of 17 chars)",
+  },
+  {
+    name: "truncated MAC address",
+    payload: "aa:bb:cc:dd:ee",
+    reason: "truncated MAC address (14 of 17 chars)",
+  },
+  {
+    name: "MAC address without separators",
+    payload: "aabbccddee01000000002",
+    reason: "malformed MAC address aabbccddee0100000",
+  },
+  {
+    name: "non-hex data",
+    payload: "aa:bb:cc:dd:ee:01zz00002",
+    reason: "data zz00002 is not hex",
+  },
+  {
+    name: "MAC address only",
+    payload: "aa:bb:cc:dd:ee:01",
+    reason: "no data after the MAC address",
+  },
+  {
+    name: "truncated data",
+    payload: "aa:bb:cc:dd:ee:020000",
+    reason: "truncated data 0000 (4 of at least 6 chars)",
+  },
+  {
+    name: "oversized data",
+    payload: "aa:bb:cc:dd:ee:01" + "0".repeat(64),
+    reason: "data is 64 chars, more than an advertisement holds",
+  },
+];
+
+const undecodableData: UndecodableData[] = [
+  {
+    name: "dimmer data without its level byte",
+    data: "00008",
+    type: DeviceType.DIMMING,
+    reason: "dimming data 00008 is 5 chars, needs at least 6",
+  },
+  {
+    name: "curtain data cut before its level byte",
+    data: "0000",
+    type: DeviceType.CURTAIN,
+    reason: "curtain data 0000 is 4 chars, needs at least 6",
+  },
+  {
+    name: "non-hex curtain data",
+    data: "0000zz",
+    type: DeviceType.CURTAIN,
+    reason: "data 0000zz is not hex",
+  },
+];
+
+export { decodedFrames, rejectedFrames, undecodableData };
+export type { DecodedFrame, RejectedFrame, UndecodableData };
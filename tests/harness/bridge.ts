@@ -0,0 +1,145 @@
+import service from "../../src/service/service.ts";
+import AedesService from "../../src/service/aedesService.ts";
+import AvailabilityService from "../../src/service/availabilityService.ts";
+import CacheService from "../../src/service/cacheService.ts";
+import AccountService from "../../src/service/accountService.ts";
+import CommandService, {
+  CommandServiceOptions,
+} from "../../src/service/commandService.ts";
+import DeviceService from "../../src/service/deviceService.ts";
+import ScannerService from "../../src/service/scannerService.ts";
+import GenericIntegration from "../../src/integration/genericIntegration.ts";
+import HomebridgeIntegration from "../../src/integration/homebridgeIntegration.ts";
+import HomeAssistantIntegration from "../../src/integration/homeAssistantIntegration.ts";
+import FakeCloud from "./fakeCloud.ts";
+import FakeGateway from "./fakeGateway.ts";
+import HomebridgeSimulator from "./homebridgeSimulator.ts";
+import { APP_ID, createProfile, PASSWORD, USERNAME } from "./fixtures.ts";
+import { getFreePort } from "./utils.ts";
+
+interface TestBridge {
+  cloud: FakeCloud;
+  gateway: FakeGateway;
+  homebridge: HomebridgeSimulator;
+  dataDir: string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Wires the services together the same way `main.ts` does, but against the
+ * fake cloud and gateway, and connects a homebridge-mqtt simulator.
+ */
+async function startBridge(
+  options: {
+    command?: Partial<CommandServiceOptions>;
+    availabilityTimeout?: number;
+    curtainControl?: boolean;
+    homeAssistant?: boolean;
+    profile?: ReturnType<typeof createProfile>;
+  } = {}
+): Promise<TestBridge> {
+  const gateway = await FakeGateway.start();
+  const cloud = new FakeCloud({
+    username: USERNAME,
+    password: PASSWORD,
+    appId: APP_ID,
+    appSetting: {
+      config: {
+        mqtt_server: "127.0.0.1",
+        mqtt_port: gateway.port,
+        mqtt_keepalive: 60,
+        mqtt_username: "gateway-user",
+        mqtt_password: "gateway-password",
+      },
+    },
+    profile: options.profile ?? createProfile(),
+  });
+  const dataDir = await Deno.makeTempDir({ prefix: "yoswit-test-" });
+
+  service.cacheService = new CacheService(dataDir);
+  const account = new AccountService({
+    id: "",
+    baseUrl: cloud.baseUrl,
+    username: USERNAME,
+    password: PASSWORD,
+    appId: APP_ID,
+    retry: { initialDelay: 10, maxDelay: 10 },
+  });
+  service.accountServices.set(account.id, account);
+
+  const profile = await account.start(1);
+  await new Promise((resolve) =>
+    account.mqttService!.client.once("connect", resolve)
+  );
+  service.commandService = new CommandService({
+    interval: 10,
+    debounce: 10,
+    mergeWindow: 10,
+    retryDelay: 100,
+    responseTimeout: 200,
+    ...options.command,
+  });
+
+  service.deviceService = new DeviceService();
+  service.deviceService.curtainControl = options.curtainControl ?? false;
+  account.applyProfile(profile);
+
+  const aedesPort = await getFreePort();
+  service.aedesService = new AedesService(aedesPort);
+  service.aedesService.addIntegration(
+    new HomebridgeIntegration(service.aedesService, {
+      topicPrefix: "homebridge",
+    })
+  );
+  if (options.homeAssistant)
+    service.aedesService.addIntegration(
+      new HomeAssistantIntegration(service.aedesService, {
+        discoveryPrefix: "homeassistant",
+        topicPrefix: "yoswit/ha",
+      })
+    );
+  service.aedesService.addIntegration(
+    new GenericIntegration(service.aedesService, { topicPrefix: "yoswit" })
+  );
+  service.scannerService = new ScannerService({
+    dedupWindow: 1000,
+    timeout: 0,
+  });
+  // Tests check availability themselves instead of waiting for the timer
+  service.availabilityService = new AvailabilityService({
+    timeout: options.availabilityTimeout ?? 0,
+  });
+  service.aedesService.start();
+
+  const homebridge = await HomebridgeSimulator.connect(aedesPort);
+
+  return {
+    cloud,
+    gateway,
+    homebridge,
+    dataDir,
+    async stop() {
+      await homebridge.close();
+      service.commandService?.stop();
+      service.deviceService?.stop();
+      service.scannerService?.stop();
+      service.availabilityService?.stop();
+      await service.aedesService?.stop();
+      await account.stop();
+      await gateway.stop();
+      await cloud.stop();
+      await Deno.remove(dataDir, { recursive: true });
+
+      service.cacheService = null;
+      service.accountServices.clear();
+      service.commandService = null;
+      service.deviceService = null;
+      service.aedesService = null;
+      service.scannerService = null;
+      service.availabilityService = null;
+    },
+  };
+}
+
+export { startBridge };
+export type { TestBridge };
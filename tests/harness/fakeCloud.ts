@@ -0,0 +1,114 @@
+import type { AppSetting } from "../../src/service/cloudService.ts";
+
+interface FakeCloudOptions {
+  username: string;
+  password: string;
+  appId: string;
+  appSetting: AppSetting;
+  // deno-lint-ignore no-explicit-any
+  profile: any;
+}
+
+interface RecordedRequest {
+  path: string;
+  cookie: string | null;
+  status: number;
+}
+
+/**
+ * Stand-in for the Yoswit cloud implementing the login, getAppSetting and
+ * afterLogin endpoints, with a session store that can be expired on demand.
+ */
+class FakeCloud {
+  options: FakeCloudOptions;
+  requests: RecordedRequest[] = [];
+  // Holds every request without answering, like a cloud that is slow but up
+  hang = false;
+  private hanging: (() => void)[] = [];
+  private sessions: Set<string> = new Set();
+  private server: Deno.HttpServer<Deno.NetAddr>;
+
+  constructor(options: FakeCloudOptions) {
+    this.options = options;
+    this.server = Deno.serve(
+      { hostname: "127.0.0.1", port: 0, onListen: () => {} },
+      (req) => this.handle(req)
+    );
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${this.server.addr.port}`;
+  }
+
+  // deno-lint-ignore no-explicit-any
+  set profile(profile: any) {
+    this.options.profile = profile;
+  }
+
+  expireSessions() {
+    this.sessions.clear();
+  }
+
+  async stop() {
+    for (const release of this.hanging) release();
+    await this.server.shutdown();
+  }
+
+  private async handle(req: Request): Promise<Response> {
+    const url = new URL(req.url);
+    const cookie = req.headers.get("cookie");
+    if (this.hang) {
+      await new Promise<void>((resolve) => this.hanging.push(resolve));
+      return Response.json({ message: "Gone" }, { status: 503 });
+    }
+
+    const resp = await this.route(req, url, cookie);
+
+    this.requests.push({ path: url.pathname, cookie, status: resp.status });
+    return resp;
+  }
+
+  private async route(
+    req: Request,
+    url: URL,
+    cookie: string | null
+  ): Promise<Response> {
+    if (url.pathname === "/api/method/login") {
+      const body = await req.json();
+      if (
+        body.usr !== this.options.username ||
+        body.pwd !== this.options.password
+      )
+        return Response.json({ message: "Invalid login" }, { status: 401 });
+
+      const sid = crypto.randomUUID();
+      this.sessions.add(sid);
+
+      return Response.json(
+        { message: "Logged In" },
+        { headers: { "Set-Cookie": `sid=${sid}; Path=/; HttpOnly` } }
+      );
+    }
+
+    await req.body?.cancel();
+
+    const sid = cookie?.replace(/^sid=/, "");
+    if (!sid || !this.sessions.has(sid))
+      return Response.json({ message: "Not permitted" }, { status: 403 });
+
+    if (url.pathname === "/api/method/appv6.getAppSetting") {
+      if (url.searchParams.get("appId") !== this.options.appId)
+        return Response.json({ message: "Unknown app" }, { status: 404 });
+
+      return Response.json(this.options.appSetting);
+    }
+
+    if (url.pathname === "/api/method/appv6.afterLogin")
+      return Response.json(this.options.profile);
+
+    return Response.json({ message: "Not found" }, { status: 404 });
+  }
+}
+
+export default FakeCloud;
+export type { FakeCloudOptions, RecordedRequest };
@@ -0,0 +1,89 @@
+import Aedes from "aedes";
+import { createServer, Server } from "node:net";
+import { getFreePort } from "./utils.ts";
+
+interface RecordedCommand {
+  topic: string;
+  // deno-lint-ignore no-explicit-any
+  payload: any;
+  receivedAt: number;
+}
+
+type GatewayResponse = "success" | "failure" | "none";
+
+/**
+ * Stand-in for the Yoswit cloud MQTT broker that records every command
+ * published to the `cmd/<md5(md5(gateway))>` topics and answers on the
+ * matching `res/` topic.
+ */
+class FakeGateway {
+  port: number;
+  commands: RecordedCommand[] = [];
+  response: GatewayResponse = "success";
+  private aedes: Aedes.default;
+  private server: Server;
+
+  private constructor(port: number) {
+    this.port = port;
+    this.aedes = Aedes.createBroker();
+    this.server = createServer(this.aedes.handle);
+
+    this.aedes.on("publish", (packet, client) => {
+      if (!client || !packet.topic.startsWith("cmd/")) return;
+
+      this.commands.push({
+        topic: packet.topic,
+        payload: JSON.parse(packet.payload.toString()),
+        receivedAt: Date.now(),
+      });
+      this.respond(packet.topic, JSON.parse(packet.payload.toString()));
+    });
+  }
+
+  static async start(): Promise<FakeGateway> {
+    const gateway = new FakeGateway(await getFreePort());
+    await new Promise<void>((resolve) =>
+      gateway.server.listen(gateway.port, "127.0.0.1", () => resolve())
+    );
+
+    return gateway;
+  }
+
+  // deno-lint-ignore no-explicit-any
+  private respond(topic: string, payload: any) {
+    if (this.response === "none") return;
+
+    const data =
+      this.response === "success"
+        ? { callback: payload.data.callback, status: "success" }
+        : {
+            callback: payload.data.callback,
+            status: "error",
+            error: "Device not reachable",
+          };
+
+    this.aedes.publish(
+      {
+        topic: topic.replace(/^cmd\//, "res/"),
+        payload: JSON.stringify({ id: crypto.randomUUID(), data }),
+        qos: 0,
+        retain: false,
+        dup: false,
+        cmd: "publish",
+      },
+      () => {}
+    );
+  }
+
+  commandsTo(topic: string): RecordedCommand[] {
+    return this.commands.filter((command) => command.topic === topic);
+  }
+
+  async stop() {
+    await new Promise<void>((resolve) => this.aedes.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+export default FakeGateway;
+export type { GatewayResponse, RecordedCommand };
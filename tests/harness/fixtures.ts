@@ -0,0 +1,87 @@
+import type { ProfileScene } from "../../src/service/deviceService.ts";
+
+const USERNAME = "tester";
+const PASSWORD = "secret";
+const APP_ID = "test-app";
+const GATEWAY_ID = "GW-0001";
+
+const SWITCH_GUID = "switch-guid";
+const SWITCH_MAC = "AA:BB:CC:DD:EE:01";
+const DIMMER_GUID = "dimmer-guid";
+const DIMMER_MAC = "AA:BB:CC:DD:EE:02";
+
+function createProfile() {
+  return {
+    profile: {
+      profile_scene: [] as ProfileScene[],
+      profile_device: [
+        { device: SWITCH_GUID, gateway: GATEWAY_ID },
+        { device: DIMMER_GUID, gateway: GATEWAY_ID },
+      ],
+      profile_subdevice: [
+        {
+          device: SWITCH_GUID,
+          device_button_group: "ONOFF GANG1",
+          title: "Ceiling",
+          room_name: "[en]Living Room[/en]",
+        },
+        {
+          device: SWITCH_GUID,
+          device_button_group: "ONOFF GANG2",
+          title: "Wall",
+          room_name: "[en]Living Room[/en]",
+        },
+        {
+          device: DIMMER_GUID,
+          device_button_group: "ONOFF GANG1",
+          title: "Dimmer V1",
+          room_name: "[en]Bedroom[/en]",
+        },
+        {
+          device: DIMMER_GUID,
+          device_button_group: "DIMMING",
+          title: "Bedside",
+          room_name: "[en]Bedroom[/en]",
+        },
+      ],
+    },
+    device: {
+      [SWITCH_GUID]: { name: SWITCH_GUID, mac_address: SWITCH_MAC },
+      [DIMMER_GUID]: { name: DIMMER_GUID, mac_address: DIMMER_MAC },
+    },
+  };
+}
+
+function createScene() {
+  return {
+    name: "SCENE-0001",
+    title: "Good Night",
+    room_name: "[en]Bedroom[/en]",
+    scene_device: [
+      {
+        device: SWITCH_GUID,
+        device_button_group: "ONOFF GANG1",
+        status: "OFF",
+      },
+      {
+        device: DIMMER_GUID,
+        device_button_group: "DIMMING",
+        status: "ON",
+        level: 20,
+      },
+    ],
+  };
+}
+
+export {
+  APP_ID,
+  createProfile,
+  createScene,
+  DIMMER_GUID,
+  DIMMER_MAC,
+  GATEWAY_ID,
+  PASSWORD,
+  SWITCH_GUID,
+  SWITCH_MAC,
+  USERNAME,
+};
@@ -0,0 +1,80 @@
+import mqtt from "mqtt";
+
+interface ReceivedMessage {
+  topic: string;
+  // deno-lint-ignore no-explicit-any
+  payload: any;
+}
+
+/**
+ * Minimal homebridge-mqtt client: subscribes to `<prefix>/to/#` like the
+ * plugin does and drives the bridge through `<prefix>/from/*` messages.
+ */
+class HomebridgeSimulator {
+  topicPrefix: string;
+  messages: ReceivedMessage[] = [];
+  private client: mqtt.MqttClient;
+
+  private constructor(client: mqtt.MqttClient, topicPrefix: string) {
+    this.client = client;
+    this.topicPrefix = topicPrefix;
+
+    this.client.on("message", (topic, payload) => {
+      this.messages.push({ topic, payload: JSON.parse(payload.toString()) });
+    });
+  }
+
+  static async connect(
+    port: number,
+    topicPrefix = "homebridge"
+  ): Promise<HomebridgeSimulator> {
+    const client = await mqtt.connectAsync(`mqtt://127.0.0.1:${port}`, {
+      reconnectPeriod: 0,
+    });
+    const simulator = new HomebridgeSimulator(client, topicPrefix);
+    await client.subscribeAsync(`${topicPrefix}/to/#`);
+
+    return simulator;
+  }
+
+  received(action: string): ReceivedMessage[] {
+    return this.messages.filter(
+      (message) => message.topic === `${this.topicPrefix}/to/${action}`
+    );
+  }
+
+  async set(name: string, characteristic: string, value: boolean | number) {
+    await this.client.publishAsync(
+      `${this.topicPrefix}/from/set`,
+      JSON.stringify({ name, characteristic, value })
+    );
+  }
+
+  async get(name: string, characteristic: string) {
+    await this.client.publishAsync(
+      `${this.topicPrefix}/from/get`,
+      JSON.stringify({ name, characteristic })
+    );
+  }
+
+  async publishBle(macAddress: string, data: string) {
+    await this.client.publishAsync("yoswit/ble/devices", macAddress + data);
+  }
+
+  async publishSighting(
+    scanner: string,
+    sighting: { mac: string; data: string; rssi?: number; timestamp?: number }
+  ) {
+    await this.client.publishAsync(
+      `yoswit/ble/scanners/${scanner}`,
+      JSON.stringify(sighting)
+    );
+  }
+
+  async close() {
+    await this.client.endAsync();
+  }
+}
+
+export default HomebridgeSimulator;
+export type { ReceivedMessage };
@@ -0,0 +1,29 @@
+import { sleep } from "../../src/utils.ts";
+
+async function getFreePort(): Promise<number> {
+  const listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+  const port = listener.addr.port;
+  listener.close();
+  // Give the OS a moment to release the port
+  await sleep(10);
+
+  return port;
+}
+
+async function waitFor<T>(
+  fn: () => T | undefined | null | false,
+  timeout = 3000
+): Promise<T> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    const result = fn();
+    if (result) return result;
+
+    await sleep(20);
+  }
+
+  throw new Error(`Condition not met within ${timeout}ms`);
+}
+
+export { getFreePort, waitFor };
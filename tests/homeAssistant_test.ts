@@ -0,0 +1,86 @@
+import { assertEquals } from "@std/assert";
+import mqtt from "mqtt";
+import { md5 } from "../src/utils.ts";
+import service from "../src/service/service.ts";
+import { startBridge } from "./harness/bridge.ts";
+import { DIMMER_GUID, GATEWAY_ID, SWITCH_GUID } from "./harness/fixtures.ts";
+import { waitFor } from "./harness/utils.ts";
+
+async function connect(port: number) {
+  const client = await mqtt.connectAsync(`mqtt://127.0.0.1:${port}`, {
+    reconnectPeriod: 0,
+  });
+  const messages: Map<string, string> = new Map();
+  client.on("message", (topic, payload) =>
+    messages.set(topic, payload.toString())
+  );
+
+  return { client, messages };
+}
+
+Deno.test("publishes retained discovery configs", async () => {
+  const bridge = await startBridge({ homeAssistant: true });
+  const { client, messages } = await connect(service.aedesService!.port);
+
+  try {
+    await client.subscribeAsync("homeassistant/light/+/config");
+
+    const dimmer = await waitFor(() => {
+      const config = messages.get(
+        `homeassistant/light/${DIMMER_GUID}-0/config`
+      );
+      return config && JSON.parse(config);
+    });
+    assertEquals(dimmer.command_topic, `yoswit/ha/${DIMMER_GUID}-0/set`);
+    assertEquals(dimmer.brightness, true);
+    assertEquals(dimmer.device.suggested_area, "Bedroom");
+
+    const gang = JSON.parse(
+      messages.get(`homeassistant/light/${SWITCH_GUID}-1/config`)!
+    );
+    assertEquals(gang.brightness, false);
+    assertEquals(gang.supported_color_modes, ["onoff"]);
+
+    // Homebridge keeps running against the same devices
+    assertEquals(bridge.homebridge.received("add").length, 3);
+  } finally {
+    await client.endAsync();
+    await bridge.stop();
+  }
+});
+
+Deno.test("sends Home Assistant commands to the gateway", async () => {
+  const bridge = await startBridge({ homeAssistant: true });
+  const { client, messages } = await connect(service.aedesService!.port);
+  const topic = `cmd/${await md5(await md5(GATEWAY_ID))}`;
+
+  try {
+    await client.subscribeAsync("yoswit/ha/+/state");
+    await client.publishAsync(
+      `yoswit/ha/${DIMMER_GUID}-0/set`,
+      JSON.stringify({ state: "ON", brightness: 40 })
+    );
+
+    await waitFor(() => bridge.gateway.commandsTo(topic).length === 1);
+    const state = await waitFor(() => {
+      const state = messages.get(`yoswit/ha/${DIMMER_GUID}-0/state`);
+      return state && JSON.parse(state);
+    });
+    assertEquals(state, { state: "ON", brightness: 40 });
+
+    // The same change is reported to Homebridge
+    const brightness = await waitFor(() =>
+      bridge.homebridge
+        .received("set")
+        .find(
+          ({ payload }) =>
+            payload.name === `${DIMMER_GUID}-0` &&
+            payload.characteristic === "Brightness"
+        )
+    );
+    assertEquals(brightness.payload.value, 40);
+  } finally {
+    await client.endAsync();
+    await bridge.stop();
+  }
+});
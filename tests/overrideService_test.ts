@@ -0,0 +1,115 @@
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import DeviceService, { DeviceType } from "../src/service/deviceService.ts";
+import OverrideService, {
+  OverrideError,
+} from "../src/service/overrideService.ts";
+import { createProfile, DIMMER_GUID, SWITCH_GUID } from "./harness/fixtures.ts";
+
+Deno.test("internal switches are excluded by default", () => {
+  const withDefaults = DeviceService.fromAfterLoginResp(
+    createProfile(),
+    new OverrideService()
+  );
+  assertEquals(withDefaults.devices[`${DIMMER_GUID}-1`], undefined);
+
+  // The rule is an ordinary exclusion that can be replaced
+  const withoutRule = DeviceService.fromAfterLoginResp(
+    createProfile(),
+    new OverrideService({ exclude: [] })
+  );
+  assertEquals(withoutRule.devices[`${DIMMER_GUID}-1`].name, "Dimmer V1");
+});
+
+Deno.test("devices are included and excluded by rules", () => {
+  const overrides = new OverrideService({
+    include: [{ room: "living room" }, { id: `${DIMMER_GUID}-0` }],
+    exclude: [{ name: "^Wall$" }],
+  });
+
+  const deviceService = DeviceService.fromAfterLoginResp(
+    createProfile(),
+    overrides
+  );
+
+  assertEquals(Object.keys(deviceService.devices), [
+    `${SWITCH_GUID}-1`,
+    `${DIMMER_GUID}-0`,
+  ]);
+});
+
+Deno.test("names, rooms and services are overridden", () => {
+  const overrides = new OverrideService({
+    serviceNameFormat: "{room} {name}",
+    devices: {
+      [`${SWITCH_GUID}-1`]: { name: "Pendant", service: "Outlet" },
+      [`${DIMMER_GUID}-0`]: { room: "", service: "Switch" },
+    },
+  });
+
+  const deviceService = DeviceService.fromAfterLoginResp(
+    createProfile(),
+    overrides
+  );
+  const pendant = deviceService.devices[`${SWITCH_GUID}-1`];
+  const dimmer = deviceService.devices[`${DIMMER_GUID}-0`];
+
+  assertEquals(pendant.name, "Pendant");
+  assertEquals(overrides.serviceNameOf(pendant), "Living Room Pendant");
+  assertEquals(overrides.homeKitServiceOf(pendant), "Outlet");
+
+  // Dimmers keep their Lightbulb to keep the brightness
+  assertEquals(dimmer.type, DeviceType.DIMMING);
+  assertEquals(overrides.serviceNameOf(dimmer), "Bedside");
+  assertEquals(overrides.homeKitServiceOf(dimmer), undefined);
+});
+
+Deno.test("names of devices in several accounts stay apart", () => {
+  const overrides = new OverrideService();
+  const ceilingOf = (account?: { id: string; name: string }) => {
+    const { devices } = DeviceService.fromAfterLoginResp(
+      createProfile(),
+      overrides,
+      account
+    );
+    const prefix = account ? `${account.id}:` : "";
+    return devices[`${prefix}${SWITCH_GUID}-1`];
+  };
+  const home = ceilingOf({ id: "home", name: "Home" });
+  const office = ceilingOf({ id: "office", name: "Office" });
+
+  assertEquals(overrides.serviceNameOf(home), "Ceiling (Living Room, Home)");
+  assertEquals(
+    overrides.serviceNameOf(office),
+    "Ceiling (Living Room, Office)"
+  );
+  assertEquals(
+    OverrideService.withHome(office.name!, office.home),
+    "Ceiling (Office)"
+  );
+
+  // A single account keeps the plain names
+  const single = ceilingOf();
+  assertEquals(overrides.serviceNameOf(single), "Ceiling (Living Room)");
+  assertEquals(OverrideService.withHome(single.name!, single.home), "Ceiling");
+});
+
+Deno.test("invalid overrides are rejected", async () => {
+  assertThrows(
+    () => new OverrideService({ exclude: [{ name: "(" }] }),
+    OverrideError
+  );
+
+  // Unknown services can only come from the file
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  try {
+    await Deno.writeTextFile(
+      path,
+      JSON.stringify({
+        devices: { [`${SWITCH_GUID}-1`]: { service: "Television" } },
+      })
+    );
+    await assertRejects(() => OverrideService.load(path), OverrideError);
+  } finally {
+    await Deno.remove(path);
+  }
+});
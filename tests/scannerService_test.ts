@@ -0,0 +1,40 @@
+import { assertEquals } from "@std/assert";
+import { sleep } from "../src/utils.ts";
+import ScannerService from "../src/service/scannerService.ts";
+
+const sighting = (scanner: string, data = "0000002") => ({
+  scanner,
+  macAddress: "aa:bb:cc:dd:ee:01",
+  data,
+});
+
+Deno.test(
+  "only drops other scanners' sightings within the window",
+  async () => {
+    const scannerService = new ScannerService({ dedupWindow: 30, timeout: 0 });
+
+    assertEquals(scannerService.accept(sighting("kitchen")), true);
+    // Repeats of the same scanner are left to change-only publishing
+    assertEquals(scannerService.accept(sighting("kitchen")), true);
+    assertEquals(scannerService.accept(sighting("hall")), false);
+    assertEquals(scannerService.accept(sighting("hall", "0000004")), true);
+
+    await sleep(50);
+    assertEquals(scannerService.accept(sighting("kitchen", "0000004")), true);
+  }
+);
+
+Deno.test("marks silent scanners until they report again", async () => {
+  const scannerService = new ScannerService({ dedupWindow: 0, timeout: 20 });
+
+  scannerService.accept(sighting("kitchen"));
+  await sleep(40);
+  scannerService.accept(sighting("hall"));
+  scannerService.checkScanners();
+
+  assertEquals(scannerService.scanners.get("kitchen")?.alive, false);
+  assertEquals(scannerService.scanners.get("hall")?.alive, true);
+
+  scannerService.accept(sighting("kitchen"));
+  assertEquals(scannerService.scanners.get("kitchen")?.alive, true);
+});
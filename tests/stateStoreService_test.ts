@@ -0,0 +1,89 @@
+import { assertEquals } from "@std/assert";
+import service from "../src/service/service.ts";
+import AedesService from "../src/service/aedesService.ts";
+import CacheService from "../src/service/cacheService.ts";
+import DeviceService from "../src/service/deviceService.ts";
+import StateStoreService from "../src/service/stateStoreService.ts";
+import { createProfile, DIMMER_GUID, SWITCH_GUID } from "./harness/fixtures.ts";
+
+const HOUR = 60 * 60 * 1000;
+
+async function withServices(fn: (dataDir: string) => Promise<void>) {
+  const dataDir = await Deno.makeTempDir({ prefix: "yoswit-test-" });
+  service.cacheService = new CacheService(dataDir);
+
+  try {
+    await fn(dataDir);
+  } finally {
+    service.cacheService = null;
+    service.deviceService = null;
+    service.aedesService = null;
+    await Deno.remove(dataDir, { recursive: true });
+  }
+}
+
+function restart() {
+  service.deviceService = DeviceService.fromAfterLoginResp(createProfile());
+  service.aedesService = new AedesService(0);
+}
+
+Deno.test("restores saved states and BLE data", async () => {
+  await withServices(async () => {
+    restart();
+    service.deviceService!.reportState(`${DIMMER_GUID}-0`, {
+      on: true,
+      brightness: 40,
+    });
+    service.aedesService!.restoreBleCache(
+      { "aa:bb:cc:dd:ee:02": { data: "0000661", updatedAt: Date.now() } },
+      0
+    );
+    await new StateStoreService({ maxAge: HOUR }).save();
+
+    restart();
+    await new StateStoreService({ maxAge: HOUR }).load();
+
+    const state = service.deviceService!.getState(`${DIMMER_GUID}-0`);
+    assertEquals(
+      [state?.on, state?.brightness, state?.stale],
+      [true, 40, false]
+    );
+    assertEquals(Object.keys(service.aedesService!.bleCache), [
+      "aa:bb:cc:dd:ee:02",
+    ]);
+  });
+});
+
+Deno.test("marks old states as stale", async () => {
+  await withServices(async () => {
+    const old = Date.now() - 2 * HOUR;
+    await service.cacheService!.write("state", {
+      savedAt: old,
+      states: {
+        [`${SWITCH_GUID}-1`]: {
+          on: true,
+          updatedAt: old,
+          source: "ble",
+          pending: false,
+        },
+        "removed-device": {
+          on: true,
+          updatedAt: Date.now(),
+          source: "ble",
+          pending: false,
+        },
+      },
+      bleCache: { "aa:bb:cc:dd:ee:01": { data: "0000001", updatedAt: old } },
+    });
+
+    restart();
+    await new StateStoreService({ maxAge: HOUR }).load();
+
+    assertEquals(
+      service.deviceService!.getState(`${SWITCH_GUID}-1`)?.stale,
+      true
+    );
+    assertEquals(service.deviceService!.getState("removed-device"), undefined);
+    assertEquals(service.aedesService!.bleCache, {});
+  });
+});
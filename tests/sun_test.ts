@@ -0,0 +1,29 @@
+import { assert, assertEquals } from "@std/assert";
+import { sunTimes } from "../src/sun.ts";
+
+const MINUTE = 60 * 1000;
+
+Deno.test("computes sunrise and sunset", () => {
+  // London on the summer solstice, 03:43 and 20:21 UTC
+  const { sunrise, sunset } = sunTimes(
+    new Date("2024-06-21T12:00:00Z"),
+    51.5074,
+    -0.1278
+  );
+
+  assert(
+    Math.abs(sunrise!.getTime() - Date.parse("2024-06-21T03:43:00Z")) <
+      2 * MINUTE
+  );
+  assert(
+    Math.abs(sunset!.getTime() - Date.parse("2024-06-21T20:21:00Z")) <
+      2 * MINUTE
+  );
+});
+
+Deno.test("has no sunrise during the polar day", () => {
+  assertEquals(sunTimes(new Date("2024-06-21T12:00:00Z"), 78.2, 15.6), {
+    sunrise: null,
+    sunset: null,
+  });
+});